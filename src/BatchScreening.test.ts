@@ -0,0 +1,109 @@
+/**
+ * Batch Screening Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { screenBatch, BatchProgress } from './BatchScreening.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { jobAnalysisHandler } from './MockJobAnalysis.js';
+import { CompletionRequest } from './LLMProvider.js';
+import { defaultJobAnalysisCache } from './JobAnalysis.js';
+import { Resume, sampleResumes } from './examples/resumes.js';
+import { JobDescription, defaultJob } from './examples/jobDescriptions.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+const resumes: Resume[] = Array.from({ length: 6 }, (_, i) => ({
+  ...sampleResumes.strongMatch,
+  candidateId: `CAND-${100 + i}`
+}));
+
+describe('screenBatch', () => {
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const provider = new MockProvider({
+      handlers: {
+        ResumeScreening: async (request: CompletionRequest) => {
+          inFlight++;
+          peak = Math.max(peak, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+          return buildMockScreening(request.context?.resume as Resume, request.context?.job as JobDescription);
+        }
+      }
+    });
+
+    const batch = await screenBatch(resumes, defaultJob, { provider, concurrency: 2 });
+
+    expect(peak).toBe(2);
+    expect(batch.succeeded).toBe(6);
+    expect(batch.items.map(i => i.candidateId)).toEqual(resumes.map(r => r.candidateId));
+  });
+
+  it('should isolate failing items and report progress for every item', async () => {
+    const broken = { candidateId: 'CAND-BROKEN' } as Resume;
+    const progress: BatchProgress[] = [];
+
+    const batch = await screenBatch([resumes[0], broken, resumes[1]], defaultJob, {
+      provider: new MockProvider(),
+      onProgress: p => progress.push(p)
+    });
+
+    expect(batch.succeeded).toBe(2);
+    expect(batch.failed).toBe(1);
+    expect(batch.items[1].success).toBe(false);
+    expect(batch.items[1].candidateId).toBe('CAND-BROKEN');
+    expect(progress.map(p => p.completed)).toEqual([1, 2, 3]);
+    expect(progress[2]).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+  });
+
+  it('should keep results when the progress callback throws', async () => {
+    const batch = await screenBatch(resumes.slice(0, 3), defaultJob, {
+      provider: new MockProvider(),
+      onProgress: () => {
+        throw new Error('progress bar crashed');
+      }
+    });
+
+    expect(batch.succeeded).toBe(3);
+    expect(batch.items.every(i => i.success)).toBe(true);
+    expect(console.error).toHaveBeenCalledWith('[Batch] onProgress callback failed:', expect.any(Error));
+  });
+
+  it('should analyze the job once and check every screening against it', async () => {
+    defaultJobAnalysisCache.clear();
+    let analyses = 0;
+    const screened = new Set<string>();
+    const provider = new MockProvider({
+      handlers: {
+        JobAnalysis: request => {
+          analyses++;
+          return jobAnalysisHandler(request);
+        },
+        // First attempt per candidate lists a required skill they have as missing
+        ResumeScreening: request => {
+          const resume = request.context?.resume as Resume;
+          const screening = buildMockScreening(resume, defaultJob);
+          if (screened.has(resume.candidateId)) return screening;
+          screened.add(resume.candidateId);
+          return { ...screening, skills_analysis: { ...screening.skills_analysis, missing_required_skills: ['TypeScript'] } };
+        }
+      }
+    });
+
+    const batch = await screenBatch(resumes.slice(0, 2), defaultJob, { provider, sleep: async () => {} });
+    expect(analyses).toBe(1);
+    expect(batch.succeeded).toBe(2);
+    expect(batch.items.map(item => item.metadata?.attempts[0].outcome)).toEqual(['semantic_error', 'semantic_error']);
+
+    const unchecked = await screenBatch(resumes.slice(2, 3), defaultJob, { provider, analyzeJob: false });
+    expect(analyses).toBe(1);
+    expect(unchecked.items[0].metadata?.attempts[0].outcome).toBe('success');
+  });
+
+  it('should reject an invalid concurrency', async () => {
+    await expect(screenBatch(resumes, defaultJob, { concurrency: 0 })).rejects.toThrow('positive integer');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * BatchScreening.ts - Concurrent Screening of Many Resumes
+ *
+ * Screens a list of resumes against one job with a bounded worker pool.
+ * Each resume gets its own LLMAgentResult-shaped entry, so one failing
+ * candidate (bad input, exhausted retries, unexpected throw) never sinks
+ * the rest of the run.
+ *
+ * The job is analyzed once up front (see JobAnalysis.ts, cached per jobId),
+ * so every screening is also checked against its typed requirements.
+ */
+
+import { runResumeScreening, LLMAgentResult, ScreeningOptions } from './LLMAgent.js';
+import { jobAnalysisFor } from './JobAnalysis.js';
+import { batchConfig } from './config.js';
+import { Resume } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+/**
+ * BatchItemResult - Screening result for one resume in the batch
+ */
+export interface BatchItemResult extends LLMAgentResult {
+  index: number;
+  candidateId: string;
+  durationMs: number;
+}
+
+/**
+ * BatchProgress - Snapshot passed to onProgress after each item completes
+ */
+export interface BatchProgress {
+  completed: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  item: BatchItemResult;
+}
+
+/**
+ * BatchOptions - screenBatch settings plus per-screening overrides
+ */
+export interface BatchOptions extends ScreeningOptions {
+  // Maximum screenings in flight at once (defaults to batchConfig.concurrency)
+  concurrency?: number;
+  // Called once per completed item, in completion order
+  onProgress?: (progress: BatchProgress) => void;
+  // Run analyzeJob once when no jobAnalysis is given (default true)
+  analyzeJob?: boolean;
+}
+
+/**
+ * BatchResult - Aggregate outcome of screenBatch
+ */
+export interface BatchResult {
+  jobId: string;
+  // One entry per input resume, in input order
+  items: BatchItemResult[];
+  succeeded: number;
+  failed: number;
+  durationMs: number;
+}
+
+/**
+ * Screen one resume, converting any thrown error into a failed item
+ */
+async function screenItem(
+  resume: Resume,
+  index: number,
+  job: JobDescription,
+  options: ScreeningOptions
+): Promise<BatchItemResult> {
+  const startedAt = Date.now();
+  const candidateId = resume?.candidateId ?? `index-${index}`;
+
+  try {
+    const result = await runResumeScreening(resume, job, options);
+    return { ...result, index, candidateId, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        type: 'api_error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      index,
+      candidateId,
+      durationMs: Date.now() - startedAt
+    };
+  }
+}
+
+/**
+ * screenBatch - Screen many resumes against one job concurrently
+ *
+ * @param resumes - Candidates to screen
+ * @param job - Job description shared by every screening
+ * @param options - Concurrency, progress callback and screening overrides
+ * @returns Per-item results in input order plus success/failure counts
+ */
+export async function screenBatch(
+  resumes: Resume[],
+  job: JobDescription,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const { concurrency = batchConfig.concurrency, onProgress, analyzeJob = true, ...screeningOptions } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Batch concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  const startedAt = Date.now();
+  if (analyzeJob && !screeningOptions.jobAnalysis && resumes.length > 0) {
+    screeningOptions.jobAnalysis = await jobAnalysisFor(job, screeningOptions);
+  }
+  const items: BatchItemResult[] = new Array(resumes.length);
+  let nextIndex = 0;
+  let completed = 0;
+  let succeeded = 0;
+  let failed = 0;
+
+  // Each worker pulls the next unclaimed resume until the queue is empty
+  const worker = async (): Promise<void> => {
+    while (nextIndex < resumes.length) {
+      const index = nextIndex++;
+      const item = await screenItem(resumes[index], index, job, screeningOptions);
+      items[index] = item;
+
+      completed++;
+      if (item.success) succeeded++;
+      else failed++;
+
+      // A broken progress callback must not discard finished screenings
+      try {
+        onProgress?.({ completed, total: resumes.length, succeeded, failed, item });
+      } catch (error) {
+        console.error('[Batch] onProgress callback failed:', error);
+      }
+    }
+  };
+
+  const workerCount = Math.min(concurrency, resumes.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return {
+    jobId: job.jobId,
+    items,
+    succeeded,
+    failed,
+    durationMs: Date.now() - startedAt
+  };
+}
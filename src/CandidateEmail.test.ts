@@ -0,0 +1,106 @@
+/**
+ * Candidate Email Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { generateCandidateEmail, checkEmailDraft, CandidateEmail } from './CandidateEmail.js';
+import { MockProvider, buildMockScreening, buildMockEmail } from './MockProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const provider = new MockProvider();
+const resume = sampleResumes.notQualified;
+const screening = buildMockScreening(resume, defaultJob);
+
+describe('generateCandidateEmail', () => {
+  it('should pick the email type from recommended_action', async () => {
+    const rejected = await generateCandidateEmail(screening, resume, { job: defaultJob, provider });
+    expect(screening.recommended_action).toBe('reject');
+    expect(rejected.success).toBe(true);
+    expect(rejected.emailType).toBe('rejection');
+    expect(rejected.data?.call_to_action).toBeNull();
+
+    const strong = sampleResumes.strongMatch;
+    const invited = await generateCandidateEmail(buildMockScreening(strong, defaultJob), strong, { job: defaultJob, provider });
+    expect(invited.data?.email_type).toBe('interview_invite');
+    expect(invited.data?.to).toBe(strong.email);
+  });
+
+  it('should keep concerns out of the rejection prompt', async () => {
+    const complete = vi.fn(provider.complete.bind(provider));
+    await generateCandidateEmail(screening, resume, { job: defaultJob, provider: { name: 'spy', complete } });
+
+    const prompt = complete.mock.calls[0][0].messages.map(m => m.content).join('\n');
+    for (const concern of screening.concerns) {
+      expect(prompt).not.toContain(concern);
+    }
+    expect(prompt).not.toContain(String(screening.fit_score));
+  });
+
+  it('should re-ask when a rejection leaks a concern', async () => {
+    let calls = 0;
+    const leaky = new MockProvider({
+      handlers: {
+        CandidateEmail: () => {
+          const email = buildMockEmail('rejection', screening, resume, defaultJob);
+          return ++calls === 1 ? { ...email, body_paragraphs: [...email.body_paragraphs, screening.concerns[0]] } : email;
+        }
+      }
+    });
+
+    const result = await generateCandidateEmail(screening, resume, { job: defaultJob, provider: leaky, sleep: async () => {} });
+    expect(result.success).toBe(true);
+    expect(result.metadata?.attempts[0].outcome).toBe('semantic_error');
+  });
+});
+
+describe('checkEmailDraft', () => {
+  const context = { emailType: 'rejection' as const, screening, resume, jobTitle: defaultJob.title };
+  const valid: CandidateEmail = buildMockEmail('rejection', screening, resume, defaultJob);
+
+  it('should accept the template email', () => {
+    expect(checkEmailDraft(valid, context)).toEqual([]);
+  });
+
+  it('should flag missing fields, harsh tone and leaked scores', () => {
+    const rules = checkEmailDraft({
+      ...valid,
+      to: 'someone@else.com',
+      subject: 'Your application',
+      greeting: 'Hello,',
+      body_paragraphs: [`You scored ${screening.fit_score}/100 and are simply UNQUALIFIED!!`]
+    }, context).map(issue => issue.rule);
+
+    expect(rules).toEqual(expect.arrayContaining([
+      'wrong_recipient',
+      'missing_first_name',
+      'missing_job_title',
+      'unprofessional_tone',
+      'internal_leak'
+    ]));
+  });
+
+  it('should allow acronyms but flag shouting', () => {
+    const rules = (text: string) => checkEmailDraft({ ...valid, body_paragraphs: [...valid.body_paragraphs, text] }, context)
+      .map(issue => issue.rule);
+
+    expect(rules('The role involves HIPAA and GRAPHQL work, plus the SOLID principles.')).toEqual([]);
+    expect(rules('We are SORRY to say this.')).toContain('unprofessional_tone');
+  });
+
+  it('should match a decimal fit score literally', () => {
+    const decimal = { ...context, screening: { ...screening, fit_score: 42.5 } };
+    const rules = (text: string) => checkEmailDraft({ ...valid, body_paragraphs: [text] }, decimal).map(issue => issue.rule);
+
+    expect(rules(`Thank you for applying to the ${defaultJob.title} role; we received 4205/100 of the forms.`)).not.toContain('internal_leak');
+    expect(rules(`Thank you for applying to the ${defaultJob.title} role; you scored 42.5/100.`)).toContain('internal_leak');
+  });
+
+  it('should require a call to action for invitations', () => {
+    const invite = { ...valid, email_type: 'interview_invite' as const };
+    const rules = checkEmailDraft(invite, { ...context, emailType: 'interview_invite' }).map(issue => issue.rule);
+    expect(rules).toContain('missing_call_to_action');
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * CandidateEmail.ts - Structured Candidate Email Drafting
+ *
+ * Turns a ResumeScreening into a candidate-facing email of the matching
+ * enums.emailTypes type. Two layers keep internal assessments private:
+ *
+ * 1. The prompt for rejections never contains concerns, gaps or scores
+ * 2. checkEmailDraft runs as the semantic check of the structured call, so a
+ *    draft that leaks internal notes, has the wrong tone or misses required
+ *    fields is re-asked (or repaired) instead of being returned
+ */
+
+import { z } from 'zod';
+import { runStructuredCompletion, AgentResult, AgentCallOptions } from './LLMAgent.js';
+import { SemanticIssue } from './SemanticValidation.js';
+import { ResumeScreening, RecommendedAction } from './SGRSchema.js';
+import { enums, emailConfig, EmailType } from './config.js';
+import { Resume } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * EmailTypeEnum - Kinds of candidate emails
+ */
+export const EmailTypeEnum = z.enum(enums.emailTypes);
+
+/**
+ * EmailToneEnum - Register of the email
+ */
+export const EmailToneEnum = z.enum(['warm', 'neutral', 'formal']);
+
+/**
+ * CandidateEmailSchema - A drafted email to a candidate
+ */
+export const CandidateEmailSchema = z.object({
+  email_type: EmailTypeEnum
+    .describe('Which kind of email this is'),
+
+  to: z.string()
+    .email()
+    .describe("Candidate's email address"),
+
+  subject: z.string()
+    .min(5)
+    .describe('Email subject line'),
+
+  greeting: z.string()
+    .min(1)
+    .describe('Opening line addressing the candidate by first name'),
+
+  body_paragraphs: z.array(z.string().min(1))
+    .min(1)
+    .describe('Body of the email, one paragraph per entry'),
+
+  call_to_action: z.string()
+    .nullable()
+    .describe('What the candidate should do next (null for rejections)'),
+
+  closing: z.string()
+    .min(1)
+    .describe('Closing line, e.g. "Best regards,"'),
+
+  signature: z.string()
+    .min(1)
+    .describe('Sender name and company'),
+
+  tone: EmailToneEnum
+    .describe('Overall tone of the email')
+});
+
+export type CandidateEmail = z.infer<typeof CandidateEmailSchema>;
+
+// ============================================================================
+// Email Type Selection
+// ============================================================================
+
+/**
+ * Email sent for each recommended_action
+ */
+export const EMAIL_TYPE_FOR_ACTION: Record<RecommendedAction, EmailType> = {
+  advance_to_interview: 'interview_invite',
+  phone_screen_first: 'phone_screen_invite',
+  hold_for_review: 'application_received',
+  reject: 'rejection'
+};
+
+// ============================================================================
+// Draft Guard
+// ============================================================================
+
+export type EmailGuardRule =
+  | 'wrong_email_type'
+  | 'wrong_recipient'
+  | 'missing_first_name'
+  | 'missing_job_title'
+  | 'missing_call_to_action'
+  | 'unprofessional_tone'
+  | 'internal_leak';
+
+/**
+ * Phrases that are never acceptable in candidate-facing email
+ */
+const TONE_BLOCKLIST = [
+  /\bunqualified\b/i,
+  /\bnot qualified\b/i,
+  /\b(weak|poor|inadequate|insufficient)\b/i,
+  /\bfit[_ ]score\b/i,
+  /\b(hey|lol|guys)\b/i,
+  /!{2,}/
+];
+
+/**
+ * All-caps words long enough to read as shouting
+ */
+const SHOUTING = /\b[A-Z]{5,}\b/g;
+
+const ACRONYMS = new Set<string>(emailConfig.acronyms);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const GUARD_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'not', 'has', 'have', 'does', 'clearly',
+  'meet', 'experience', 'years', 'your', 'our', 'you', 'role', 'team'
+]);
+
+function contentTokens(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9+#]+/).filter(t => t.length >= 3 && !GUARD_STOPWORDS.has(t));
+}
+
+/**
+ * Whether most of an internal note's content words appear in the text
+ */
+function leaks(note: string, text: string): boolean {
+  const noteTokens = [...new Set(contentTokens(note))];
+  if (noteTokens.length < 2) return false;
+  const textTokens = new Set(contentTokens(text));
+  return noteTokens.filter(t => textTokens.has(t)).length / noteTokens.length >= 0.6;
+}
+
+/**
+ * EmailGuardContext - What a draft is checked against
+ */
+export interface EmailGuardContext {
+  emailType: EmailType;
+  screening: ResumeScreening;
+  resume: Resume;
+  jobTitle?: string;
+}
+
+/**
+ * checkEmailDraft - Tone, required-field and leak checks for a draft
+ *
+ * @returns Every violation found (empty when the draft may be sent)
+ */
+export function checkEmailDraft(email: CandidateEmail, context: EmailGuardContext): SemanticIssue<EmailGuardRule>[] {
+  const issues: SemanticIssue<EmailGuardRule>[] = [];
+  const { emailType, screening, resume, jobTitle } = context;
+  const firstName = resume.name.split(/\s+/)[0];
+  const fullText = [email.subject, email.greeting, ...email.body_paragraphs, email.call_to_action ?? '', email.closing].join('\n');
+
+  if (email.email_type !== emailType) {
+    issues.push({ rule: 'wrong_email_type', path: ['email_type'], message: `email_type must be '${emailType}'` });
+  }
+  if (email.to.toLowerCase() !== resume.email.toLowerCase()) {
+    issues.push({ rule: 'wrong_recipient', path: ['to'], message: `to must be ${resume.email}` });
+  }
+  if (!email.greeting.includes(firstName)) {
+    issues.push({ rule: 'missing_first_name', path: ['greeting'], message: `greeting must address the candidate as ${firstName}` });
+  }
+  if (jobTitle && !fullText.toLowerCase().includes(jobTitle.toLowerCase())) {
+    issues.push({ rule: 'missing_job_title', path: ['body_paragraphs'], message: `email must mention the ${jobTitle} role` });
+  }
+  if (emailType !== 'rejection' && !email.call_to_action?.trim()) {
+    issues.push({ rule: 'missing_call_to_action', path: ['call_to_action'], message: 'call_to_action is required for this email type' });
+  }
+
+  for (const pattern of TONE_BLOCKLIST) {
+    const match = fullText.match(pattern);
+    if (match) {
+      issues.push({ rule: 'unprofessional_tone', path: ['body_paragraphs'], message: `unprofessional wording: "${match[0]}"` });
+    }
+  }
+  // Acronyms (e.g. "HIPAA") and words from the job title are not shouting
+  const titleWords = new Set(jobTitle?.split(/[^A-Za-z]+/) ?? []);
+  const shouted = (fullText.match(SHOUTING) ?? []).find(word => !ACRONYMS.has(word) && !titleWords.has(word));
+  if (shouted) {
+    issues.push({ rule: 'unprofessional_tone', path: ['body_paragraphs'], message: `unprofessional wording: "${shouted}"` });
+  }
+
+  // Rejections must not reveal why: no concerns, gaps, missing skills or scores
+  if (emailType === 'rejection') {
+    const internalNotes = [
+      ...screening.concerns,
+      ...screening.screening_steps.map(s => s.gap_identified ?? ''),
+      ...screening.skills_analysis.missing_required_skills
+    ].filter(note => note.trim().length > 0);
+
+    for (const note of internalNotes) {
+      if (leaks(note, fullText)) {
+        issues.push({ rule: 'internal_leak', path: ['body_paragraphs'], message: `rejection must not reveal internal assessment: "${note}"` });
+      }
+    }
+    if (new RegExp(`\\b${escapeRegExp(String(screening.fit_score))}\\s*(/\\s*100|points|%)`).test(fullText)) {
+      issues.push({ rule: 'internal_leak', path: ['body_paragraphs'], message: 'rejection must not reveal the fit score' });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Agent Function
+// ============================================================================
+
+/**
+ * CandidateEmailOptions - Per-call overrides for generateCandidateEmail
+ */
+export interface CandidateEmailOptions extends AgentCallOptions {
+  // Job the screening was for (used for the role title)
+  job?: JobDescription;
+  // Override the type derived from recommended_action
+  emailType?: EmailType;
+}
+
+/**
+ * CandidateEmailResult - Drafted email plus the type that was requested
+ */
+export interface CandidateEmailResult extends AgentResult<CandidateEmail> {
+  emailType: EmailType;
+}
+
+/**
+ * Talking points the model may use; rejections get none
+ */
+function talkingPoints(emailType: EmailType, screening: ResumeScreening): string[] {
+  switch (emailType) {
+    case 'interview_invite':
+    case 'phone_screen_invite':
+    case 'offer_letter':
+      return screening.strengths.slice(0, 3);
+    case 'request_more_info':
+      return screening.skills_analysis.missing_required_skills.map(s => `Ask for more detail about: ${s}`);
+    default:
+      return [];
+  }
+}
+
+/**
+ * generateCandidateEmail - Draft the right email for a screening
+ *
+ * @param screening - Completed screening for the candidate
+ * @param resume - Candidate resume (name and address)
+ * @param options - Job, email type override and provider/model/retry overrides
+ * @returns A draft that passed checkEmailDraft, or error details
+ */
+export async function generateCandidateEmail(
+  screening: ResumeScreening,
+  resume: Resume,
+  options: CandidateEmailOptions = {}
+): Promise<CandidateEmailResult> {
+  const { job, emailType = EMAIL_TYPE_FOR_ACTION[screening.recommended_action], ...callOptions } = options;
+  const jobTitle = job?.title;
+  const points = talkingPoints(emailType, screening);
+
+  const prompt = `
+Draft a ${emailType.replace(/_/g, ' ')} email.
+
+Candidate name: ${resume.name}
+Candidate email: ${resume.email}
+Role: ${jobTitle ?? 'the position they applied for'}
+Sender: ${emailConfig.senderName}, ${emailConfig.companyName}
+${points.length > 0 ? `\nPoints you may mention:\n${points.map(p => `- ${p}`).join('\n')}\n` : ''}
+Address the candidate by first name and mention the role by name.
+`;
+
+  const result = await runStructuredCompletion({
+    schema: CandidateEmailSchema,
+    schemaName: 'CandidateEmail',
+    messages: [
+      {
+        role: 'system',
+        content: `You write candidate emails for a recruiting team. Emails are professional, warm and concise.
+
+Rules:
+1. Never reveal internal assessments: scores, concerns, gaps or missing skills
+2. Rejections thank the candidate and wish them well without giving reasons
+3. Invitations include a clear call to action for scheduling
+4. No slang, no exclamation marks in a row, no words in all caps`
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    context: { screening, resume, job, emailType },
+    semanticCheck: email => checkEmailDraft(email, { emailType, screening, resume, jobTitle })
+  }, callOptions);
+
+  return { ...result, emailType };
+}
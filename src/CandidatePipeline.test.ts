@@ -0,0 +1,77 @@
+/**
+ * Candidate Pipeline Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CandidatePipeline,
+  IllegalTransitionError,
+  CandidateNotFoundError,
+  DuplicateCandidateError,
+  PipelineError
+} from './CandidatePipeline.js';
+import { exampleResumeScreening } from './SGRSchema.js';
+
+const fixedClock = () => new Date('2024-03-01T12:00:00Z');
+
+describe('CandidatePipeline', () => {
+  it('should map a screening to screening_complete and then the next status', () => {
+    const pipeline = new CandidatePipeline(fixedClock);
+    const record = pipeline.applyScreening(exampleResumeScreening);
+
+    expect(record.status).toBe('interview_scheduled');
+    expect(record.history.map(h => h.to)).toEqual(['new_application', 'screening_complete', 'interview_scheduled']);
+    expect(record.history[1]).toMatchObject({ from: 'new_application', at: '2024-03-01T12:00:00.000Z' });
+  });
+
+  it('should leave hold_for_review candidates in screening_complete', () => {
+    const pipeline = new CandidatePipeline(fixedClock);
+    const record = pipeline.applyScreening({ ...exampleResumeScreening, recommended_action: 'hold_for_review' });
+    expect(record.status).toBe('screening_complete');
+  });
+
+  it('should reject illegal transitions with a typed error', () => {
+    const pipeline = new CandidatePipeline(fixedClock);
+    pipeline.register('CAND-9', 'JOB-1');
+
+    expect(() => pipeline.transition('CAND-9', 'JOB-1', 'hired', 'skip ahead')).toThrow(IllegalTransitionError);
+
+    pipeline.transition('CAND-9', 'JOB-1', 'withdrawn', 'Candidate withdrew');
+    try {
+      pipeline.transition('CAND-9', 'JOB-1', 'screening_complete', 'too late');
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(PipelineError);
+      expect(e).toMatchObject({ from: 'withdrawn', to: 'screening_complete' });
+      expect((e as Error).message).toContain('status is terminal');
+    }
+  });
+
+  it('should not screen the same application twice', () => {
+    const pipeline = new CandidatePipeline(fixedClock);
+    pipeline.applyScreening(exampleResumeScreening);
+    expect(() => pipeline.applyScreening(exampleResumeScreening)).toThrow(IllegalTransitionError);
+  });
+
+  it('should report unknown and duplicate pairs', () => {
+    const pipeline = new CandidatePipeline(fixedClock);
+    expect(() => pipeline.get('CAND-X', 'JOB-1')).toThrow(CandidateNotFoundError);
+
+    pipeline.register('CAND-X', 'JOB-1');
+    expect(() => pipeline.register('CAND-X', 'JOB-1')).toThrow(DuplicateCandidateError);
+    expect(pipeline.list({ status: 'new_application' })).toHaveLength(1);
+  });
+
+  it('should not let callers change records outside the state machine', () => {
+    const pipeline = new CandidatePipeline(fixedClock);
+    const registered = pipeline.register('CAND-Y', 'JOB-1');
+    registered.status = 'hired';
+
+    const fetched = pipeline.get('CAND-Y', 'JOB-1');
+    fetched.history.push({ from: 'new_application', to: 'hired', at: 'now', reason: 'tampered' });
+    pipeline.list()[0].history[0].reason = 'tampered';
+
+    expect(pipeline.get('CAND-Y', 'JOB-1')).toMatchObject({ status: 'new_application', history: [{ reason: 'Application received' }] });
+    expect(pipeline.get('CAND-Y', 'JOB-1').history).toHaveLength(1);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * CandidatePipeline.ts - Candidate Lifecycle State Machine
+ *
+ * Models each candidate/job pair as a status from enums.candidateStatuses
+ * with a timestamped history. Only the transitions listed in
+ * ALLOWED_TRANSITIONS are legal; anything else throws a typed error.
+ *
+ * A completed ResumeScreening moves the candidate to 'screening_complete'
+ * and then, based on recommended_action, on to the next status.
+ *
+ * Records handed out are copies: status only changes through transition().
+ */
+
+import { CandidateStatus } from './config.js';
+import { ResumeScreening, RecommendedAction } from './SGRSchema.js';
+
+/**
+ * Legal next statuses for each status (terminal statuses have none)
+ */
+export const ALLOWED_TRANSITIONS: Record<CandidateStatus, readonly CandidateStatus[]> = {
+  new_application: ['screening_complete', 'rejected', 'withdrawn'],
+  screening_complete: ['phone_screen', 'interview_scheduled', 'rejected', 'withdrawn'],
+  phone_screen: ['interview_scheduled', 'rejected', 'withdrawn'],
+  interview_scheduled: ['interview_complete', 'rejected', 'withdrawn'],
+  interview_complete: ['interview_scheduled', 'offer_extended', 'rejected', 'withdrawn'],
+  offer_extended: ['hired', 'rejected', 'withdrawn'],
+  hired: [],
+  rejected: [],
+  withdrawn: []
+};
+
+/**
+ * Status a screening's recommended_action leads to after 'screening_complete'
+ * (null means the candidate stays in 'screening_complete' for manual review)
+ */
+export const STATUS_FOR_ACTION: Record<RecommendedAction, CandidateStatus | null> = {
+  advance_to_interview: 'interview_scheduled',
+  phone_screen_first: 'phone_screen',
+  hold_for_review: null,
+  reject: 'rejected'
+};
+
+/**
+ * StatusChange - One entry in a candidate's history
+ */
+export interface StatusChange {
+  from: CandidateStatus | null;
+  to: CandidateStatus;
+  at: string;
+  reason: string;
+}
+
+/**
+ * PipelineRecord - Current status and full history of a candidate/job pair
+ */
+export interface PipelineRecord {
+  candidateId: string;
+  jobId: string;
+  status: CandidateStatus;
+  history: StatusChange[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * PipelineError - Base class for all pipeline failures
+ */
+export class PipelineError extends Error {
+  constructor(message: string, readonly candidateId: string, readonly jobId: string) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+/**
+ * IllegalTransitionError - The requested status change is not allowed
+ */
+export class IllegalTransitionError extends PipelineError {
+  constructor(candidateId: string, jobId: string, readonly from: CandidateStatus, readonly to: CandidateStatus) {
+    const allowed = ALLOWED_TRANSITIONS[from];
+    super(
+      `Illegal transition for ${candidateId} on ${jobId}: ${from} -> ${to} ` +
+      `(allowed: ${allowed.length > 0 ? allowed.join(', ') : 'none, status is terminal'})`,
+      candidateId,
+      jobId
+    );
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+/**
+ * CandidateNotFoundError - No pipeline record exists for the pair
+ */
+export class CandidateNotFoundError extends PipelineError {
+  constructor(candidateId: string, jobId: string) {
+    super(`No pipeline record for ${candidateId} on ${jobId}`, candidateId, jobId);
+    this.name = 'CandidateNotFoundError';
+  }
+}
+
+/**
+ * DuplicateCandidateError - The pair is already registered
+ */
+export class DuplicateCandidateError extends PipelineError {
+  constructor(candidateId: string, jobId: string) {
+    super(`${candidateId} is already in the pipeline for ${jobId}`, candidateId, jobId);
+    this.name = 'DuplicateCandidateError';
+  }
+}
+
+/**
+ * Whether a status change is legal
+ */
+export function canTransition(from: CandidateStatus, to: CandidateStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Copy of a record that callers can change without affecting the pipeline
+ */
+function copyRecord(record: PipelineRecord): PipelineRecord {
+  return { ...record, history: record.history.map(change => ({ ...change })) };
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * CandidatePipeline - In-memory lifecycle tracking for candidate/job pairs
+ */
+export class CandidatePipeline {
+  private readonly records = new Map<string, PipelineRecord>();
+
+  /**
+   * @param now - Clock used for history timestamps (injectable for tests)
+   */
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  private static key(candidateId: string, jobId: string): string {
+    return `${candidateId}::${jobId}`;
+  }
+
+  /**
+   * Add a new application in 'new_application'
+   *
+   * @throws DuplicateCandidateError if the pair is already tracked
+   */
+  register(candidateId: string, jobId: string, reason = 'Application received'): PipelineRecord {
+    const key = CandidatePipeline.key(candidateId, jobId);
+    if (this.records.has(key)) throw new DuplicateCandidateError(candidateId, jobId);
+
+    const record: PipelineRecord = {
+      candidateId,
+      jobId,
+      status: 'new_application',
+      history: [{ from: null, to: 'new_application', at: this.now().toISOString(), reason }]
+    };
+    this.records.set(key, record);
+    return copyRecord(record);
+  }
+
+  /**
+   * Get the record for a pair
+   *
+   * @throws CandidateNotFoundError if the pair is not tracked
+   */
+  get(candidateId: string, jobId: string): PipelineRecord {
+    return copyRecord(this.find(candidateId, jobId));
+  }
+
+  /**
+   * Whether a pair is tracked
+   */
+  has(candidateId: string, jobId: string): boolean {
+    return this.records.has(CandidatePipeline.key(candidateId, jobId));
+  }
+
+  /**
+   * Move a candidate to a new status
+   *
+   * @throws CandidateNotFoundError if the pair is not tracked
+   * @throws IllegalTransitionError if the change is not in ALLOWED_TRANSITIONS
+   */
+  transition(candidateId: string, jobId: string, to: CandidateStatus, reason: string): PipelineRecord {
+    const record = this.find(candidateId, jobId);
+    if (!canTransition(record.status, to)) {
+      throw new IllegalTransitionError(candidateId, jobId, record.status, to);
+    }
+
+    record.history.push({ from: record.status, to, at: this.now().toISOString(), reason });
+    record.status = to;
+    return copyRecord(record);
+  }
+
+  /**
+   * Record a completed screening and advance according to recommended_action
+   *
+   * Registers the pair first if it is not tracked yet.
+   *
+   * @throws IllegalTransitionError if the candidate is past 'new_application'
+   */
+  applyScreening(screening: ResumeScreening): PipelineRecord {
+    const { candidate_id: candidateId, job_id: jobId } = screening;
+    if (!this.has(candidateId, jobId)) this.register(candidateId, jobId);
+
+    this.transition(
+      candidateId,
+      jobId,
+      'screening_complete',
+      `Screening complete: ${screening.overall_fit} (${screening.fit_score}/100)`
+    );
+
+    const next = STATUS_FOR_ACTION[screening.recommended_action];
+    if (next) {
+      this.transition(candidateId, jobId, next, `Recommended action: ${screening.recommended_action}`);
+    }
+    return this.get(candidateId, jobId);
+  }
+
+  /**
+   * All records, optionally filtered by job and/or status
+   */
+  list(filter: { jobId?: string; status?: CandidateStatus } = {}): PipelineRecord[] {
+    return [...this.records.values()]
+      .filter(record =>
+        (filter.jobId === undefined || record.jobId === filter.jobId) &&
+        (filter.status === undefined || record.status === filter.status)
+      )
+      .map(copyRecord);
+  }
+
+  /**
+   * The stored (mutable) record for a pair
+   *
+   * @throws CandidateNotFoundError if the pair is not tracked
+   */
+  private find(candidateId: string, jobId: string): PipelineRecord {
+    const record = this.records.get(CandidatePipeline.key(candidateId, jobId));
+    if (!record) throw new CandidateNotFoundError(candidateId, jobId);
+    return record;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Evidence Grounding Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { verifyGrounding, fuzzyTokenMatch } from './EvidenceGrounding.js';
+import { buildMockScreening } from './MockProvider.js';
+import { exampleResumeScreening } from './SGRSchema.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { strongMatchCandidate, potentialFitCandidate } from './examples/resumes.js';
+
+describe('fuzzyTokenMatch', () => {
+  it('should tolerate inflections and typos but not different numbers', () => {
+    expect(fuzzyTokenMatch('mentored', 'mentorship')).toBe(true);
+    expect(fuzzyTokenMatch('kubernets', 'kubernetes')).toBe(true);
+    expect(fuzzyTokenMatch('40', '60')).toBe(false);
+  });
+});
+
+describe('verifyGrounding', () => {
+  it('should fully ground a screening built from the resume', () => {
+    const screening = buildMockScreening(strongMatchCandidate, defaultJob);
+    const report = verifyGrounding(screening, strongMatchCandidate);
+
+    expect(report.unsupportedEvidence).toEqual([]);
+    expect(report.unknownSkills).toEqual([]);
+    expect(report.unknownEmployers).toEqual([]);
+    expect(report.score).toBe(1);
+  });
+
+  it('should flag evidence, skills and employers from another resume', () => {
+    const report = verifyGrounding(exampleResumeScreening, potentialFitCandidate);
+
+    expect(report.unsupportedEvidence.map(c => c.path)).toContainEqual(['screening_steps', 0, 'evidence']);
+    expect(report.unknownSkills.map(s => s.skill)).toContain('Kubernetes');
+    expect(report.unknownEmployers.map(e => e.company)).toEqual(['TechCorp Inc.']);
+    expect(report.score).toBeLessThan(0.5);
+  });
+
+  it('should accept paraphrased evidence for the right resume', () => {
+    const report = verifyGrounding(exampleResumeScreening, strongMatchCandidate);
+
+    expect(report.unknownEmployers).toEqual([]);
+    expect(report.unknownSkills).toEqual([]);
+    expect(report.score).toBeGreaterThan(0.8);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * EvidenceGrounding.ts - Verify Screening Citations Against the Resume
+ *
+ * ScreeningStepSchema.evidence and ExtractedSkillSchema.evidence_source only
+ * enforce a minimum length, so a model can cite facts that are not in the
+ * resume. This verifier fuzzily matches every cited claim against the same
+ * text the model saw (formatResumeAsText) and checks that named skills and
+ * employers actually appear in the Resume.
+ */
+
+import { ResumeScreening } from './SGRSchema.js';
+import { groundingConfig } from './config.js';
+import { defaultSkillTaxonomy } from './SkillTaxonomy.js';
+import { Resume, formatResumeAsText } from './examples/resumes.js';
+
+/**
+ * UnsupportedClaim - A cited claim whose content is not found in the resume
+ */
+export interface UnsupportedClaim {
+  path: (string | number)[];
+  text: string;
+  // Share of informative tokens found in the resume (0-1)
+  coverage: number;
+}
+
+/**
+ * GroundingReport - Result of verifying a screening against its resume
+ */
+export interface GroundingReport {
+  // Share of checked items that are supported by the resume (0-1)
+  score: number;
+  checked: number;
+  unsupportedEvidence: UnsupportedClaim[];
+  unknownSkills: Array<{ path: (string | number)[]; skill: string }>;
+  unknownEmployers: Array<{ path: (string | number)[]; company: string }>;
+}
+
+/**
+ * Words that carry no verifiable fact (grammar and recruiting meta-language)
+ */
+const NON_FACTUAL = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'has', 'have', 'had', 'was', 'were',
+  'are', 'not', 'but', 'all', 'any', 'its', 'their', 'his', 'her', 'into', 'over', 'across',
+  'including', 'most', 'recently', 'also', 'both', 'such', 'well', 'strong', 'proven',
+  'resume', 'candidate', 'lists', 'listed', 'section', 'evidence', 'experience', 'years', 'year',
+  'total', 'role', 'roles', 'position', 'positions', 'skill', 'skills', 'required', 'requirement',
+  'requirements', 'meets', 'meeting', 'met', 'demonstrated', 'demonstrates', 'used', 'background',
+  'professional', 'relevant', 'education', 'degree', 'work', 'history', 'project', 'projects'
+]);
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9+#]+/).filter(t => t.length > 0);
+}
+
+function informativeTokens(text: string): string[] {
+  return tokenize(text).filter(t => (/^\d+$/.test(t) || t.length >= 3) && !NON_FACTUAL.has(t));
+}
+
+/**
+ * Levenshtein distance, used to tolerate typos and inflections
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * fuzzyTokenMatch - Exact, shared-stem or near-miss token match
+ */
+export function fuzzyTokenMatch(token: string, candidate: string): boolean {
+  if (token === candidate) return true;
+  if (/^\d+$/.test(token) || /^\d+$/.test(candidate)) return false;
+  if (token.length >= 5 && candidate.length >= 5 && token.slice(0, 5) === candidate.slice(0, 5)) return true;
+  return token.length >= 5 && Math.abs(token.length - candidate.length) <= 1 && editDistance(token, candidate) <= 1;
+}
+
+/**
+ * Share of a claim's informative tokens that appear in the vocabulary
+ */
+function coverageOf(claim: string, vocabulary: Set<string>): number {
+  const tokens = informativeTokens(claim);
+  if (tokens.length === 0) return 1;
+
+  const found = tokens.filter(t => vocabulary.has(t) || [...vocabulary].some(v => fuzzyTokenMatch(t, v)));
+  return found.length / tokens.length;
+}
+
+/**
+ * Normalize an employer name: drop punctuation and legal suffixes
+ */
+function normalizeCompany(name: string): string {
+  return tokenize(name)
+    .filter(t => !['inc', 'llc', 'ltd', 'co', 'corp', 'corporation', 'gmbh', 'plc', 'company'].includes(t))
+    .join(' ');
+}
+
+function phraseFound(phrase: string, haystack: string[]): boolean {
+  const needle = tokenize(phrase);
+  if (needle.length === 0) return false;
+  const vocabulary = new Set(haystack.flatMap(tokenize));
+  return needle.every(t => vocabulary.has(t) || [...vocabulary].some(v => fuzzyTokenMatch(t, v)));
+}
+
+/**
+ * Alias-aware lookup, so "TypeScript" is found in a resume that says "TS"
+ */
+function taxonomyFound(skill: string, haystack: string[]): boolean {
+  return haystack.some(text => defaultSkillTaxonomy.skillsIn(text).some(found => defaultSkillTaxonomy.satisfies(found, skill)));
+}
+
+/**
+ * verifyGrounding - Check every cited claim in a screening against the resume
+ *
+ * Checks:
+ * - screening_steps[].evidence, technical_skills[].evidence_source and
+ *   work_history[].key_achievements against formatResumeAsText(resume)
+ * - technical_skills[].skill_name against Resume.skills and achievements
+ * - work_history[].company against Resume.experience
+ *
+ * @param screening - Screening to verify
+ * @param resume - Resume the screening was produced from
+ * @returns Grounding score and every unsupported item
+ */
+export function verifyGrounding(screening: ResumeScreening, resume: Resume): GroundingReport {
+  const vocabulary = new Set(tokenize(formatResumeAsText(resume)));
+  const unsupportedEvidence: UnsupportedClaim[] = [];
+  const unknownSkills: GroundingReport['unknownSkills'] = [];
+  const unknownEmployers: GroundingReport['unknownEmployers'] = [];
+  let checked = 0;
+
+  const checkClaim = (path: (string | number)[], text: string) => {
+    checked++;
+    const coverage = coverageOf(text, vocabulary);
+    if (coverage < groundingConfig.minClaimCoverage) {
+      unsupportedEvidence.push({ path, text, coverage: Math.round(coverage * 100) / 100 });
+    }
+  };
+
+  screening.screening_steps.forEach((step, i) => {
+    checkClaim(['screening_steps', i, 'evidence'], step.evidence);
+  });
+
+  const skillSources = [...resume.skills, ...resume.experience.flatMap(e => e.achievements)];
+  screening.skills_analysis.technical_skills.forEach((skill, i) => {
+    checkClaim(['skills_analysis', 'technical_skills', i, 'evidence_source'], skill.evidence_source);
+
+    checked++;
+    if (!phraseFound(skill.skill_name, skillSources) && !taxonomyFound(skill.skill_name, skillSources)) {
+      unknownSkills.push({ path: ['skills_analysis', 'technical_skills', i, 'skill_name'], skill: skill.skill_name });
+    }
+  });
+
+  const employers = resume.experience.map(e => normalizeCompany(e.company));
+  screening.experience_analysis.work_history.forEach((entry, i) => {
+    entry.key_achievements.forEach((achievement, j) => {
+      checkClaim(['experience_analysis', 'work_history', i, 'key_achievements', j], achievement);
+    });
+
+    checked++;
+    const company = normalizeCompany(entry.company);
+    if (!employers.some(e => e === company || (company.length > 0 && (e.includes(company) || company.includes(e))))) {
+      unknownEmployers.push({ path: ['experience_analysis', 'work_history', i, 'company'], company: entry.company });
+    }
+  });
+
+  const failures = unsupportedEvidence.length + unknownSkills.length + unknownEmployers.length;
+  const score = checked === 0 ? 1 : Math.round(((checked - failures) / checked) * 100) / 100;
+
+  return { score, checked, unsupportedEvidence, unknownSkills, unknownEmployers };
+}
@@ -0,0 +1,150 @@
+/**
+ * Experience Duration Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseDateRange, mergedMonths, checkExperienceDurations, DateRange } from './ExperienceDuration.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes, Resume } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const now = new Date(2024, 0, 15);
+
+describe('parseDateRange', () => {
+  it('should parse common formats', () => {
+    expect(parseDateRange('Sep 2022 - May 2023 (9 months)', now)).toMatchObject({ months: 9, precision: 'month', ongoing: false });
+    expect(parseDateRange('January 2021 – December 2021', now)?.months).toBe(12);
+    expect(parseDateRange('Sept. 2019 to Feb 2020', now)?.months).toBe(6);
+    expect(parseDateRange('03/2019 - 06/2021', now)?.months).toBe(28);
+    expect(parseDateRange('2019-03 - 2021-06', now)?.months).toBe(28);
+    expect(parseDateRange('2018-2020', now)).toMatchObject({ months: 36, minMonths: 14, precision: 'year' });
+  });
+
+  it('should give year-only ranges a shortest and longest reading', () => {
+    expect(parseDateRange('2020 - 2020', now)).toMatchObject({ months: 12, minMonths: 1 });
+    expect(parseDateRange('Jun 2020 - 2021', now)).toMatchObject({ months: 19, minMonths: 8 });
+    expect(parseDateRange('2022 - Present', now)).toMatchObject({ months: 25, minMonths: 14, shortest: { start: { year: 2022, month: 12 } } });
+    expect(parseDateRange('Mar 2019 - Jul 2020', now)).toMatchObject({ months: 17, minMonths: 17 });
+  });
+
+  it('should resolve "Present" against the clock', () => {
+    expect(parseDateRange('Jan 2021 - Present (3 years)', now)).toMatchObject({
+      start: { year: 2021, month: 1 },
+      end: { year: 2024, month: 1 },
+      ongoing: true,
+      months: 37
+    });
+    expect(parseDateRange('2023 - Current', now)?.months).toBe(13);
+  });
+
+  it('should reject what is not a range', () => {
+    expect(parseDateRange('Summers 2020-2022', now)).toBeNull();
+    expect(parseDateRange('2019-03', now)).toBeNull();
+    expect(parseDateRange('Dec 2021 - Jan 2020', now)).toBeNull();
+    expect(parseDateRange('Present - Jan 2020', now)).toBeNull();
+  });
+});
+
+describe('mergedMonths', () => {
+  it('should count overlapping roles once', () => {
+    const ranges = ['Jan 2020 - Dec 2021', 'Jun 2021 - Jun 2022', 'Jan 2023 - Dec 2023']
+      .map(d => parseDateRange(d, now) as DateRange);
+    expect(mergedMonths(ranges)).toBe(30 + 12);
+  });
+});
+
+describe('checkExperienceDurations', () => {
+  const resume: Resume = {
+    ...sampleResumes.strongMatch,
+    experience: [
+      { title: 'Senior Engineer', company: 'Acme', duration: 'Jan 2021 - Dec 2023', achievements: [] },
+      { title: 'Consultant', company: 'Side Gig', duration: 'Jun 2022 - Dec 2022', achievements: [] },
+      { title: 'Engineer', company: 'Initech', duration: 'Jan 2019 - Dec 2020', achievements: [] }
+    ]
+  };
+  const screening = buildMockScreening(resume, defaultJob);
+  const entry = screening.experience_analysis.work_history[0];
+  const history = [
+    { ...entry, company: 'Acme', role: 'Senior Engineer', duration_months: 36 },
+    { ...entry, company: 'Side Gig', role: 'Consultant', duration_months: 7 },
+    { ...entry, company: 'Initech', role: 'Engineer', duration_months: 24 }
+  ];
+
+  it('should accept consistent arithmetic', () => {
+    const report = checkExperienceDurations({
+      ...screening,
+      experience_analysis: { ...screening.experience_analysis, total_years: 5, work_history: history }
+    }, resume, now);
+
+    expect(report.totalMonths).toBe(60);
+    expect(report.corrections).toEqual([]);
+  });
+
+  it('should correct drift, counting concurrent roles once', () => {
+    const report = checkExperienceDurations({
+      ...screening,
+      experience_analysis: {
+        ...screening.experience_analysis,
+        // Summed, not merged
+        total_years: 5.6,
+        work_history: [history[2], { ...history[0], duration_months: 30 }, history[1]]
+      }
+    }, resume, now);
+
+    expect(report.corrections).toEqual([
+      expect.objectContaining({ path: ['experience_analysis', 'work_history', 1, 'duration_months'], reported: 30, computed: 36 }),
+      expect.objectContaining({ path: ['experience_analysis', 'total_years'], reported: 5.6, computed: 5 })
+    ]);
+  });
+
+  it('should only correct year-only ranges that fit no reading of the dates', () => {
+    const byYear: Resume = {
+      ...resume,
+      experience: [
+        { title: 'Senior Engineer', company: 'Acme', duration: '2021 - 2023', achievements: [] },
+        { title: 'Engineer', company: 'Initech', duration: '2018 - 2020', achievements: [] }
+      ]
+    };
+    const check = (acme: number, initech: number, totalYears: number) => checkExperienceDurations({
+      ...screening,
+      experience_analysis: {
+        ...screening.experience_analysis,
+        total_years: totalYears,
+        work_history: [{ ...history[0], duration_months: acme }, { ...history[2], duration_months: initech }]
+      }
+    }, byYear, now);
+
+    const lenient = check(24, 24, 4);
+    expect(lenient).toMatchObject({ minTotalYears: 2.3, totalYears: 6 });
+    expect(lenient.corrections).toEqual([]);
+
+    expect(check(48, 12, 7).corrections).toEqual([
+      expect.objectContaining({ path: ['experience_analysis', 'work_history', 0, 'duration_months'], reported: 48, computed: 36 }),
+      expect.objectContaining({ path: ['experience_analysis', 'work_history', 1, 'duration_months'], reported: 12, computed: 14 }),
+      expect.objectContaining({ path: ['experience_analysis', 'total_years'], reported: 7, computed: 6, message: expect.stringContaining('2.3-6 years') })
+    ]);
+  });
+
+  it('should skip the total when a duration cannot be parsed', () => {
+    const report = checkExperienceDurations(buildMockScreening(sampleResumes.notQualified, defaultJob), sampleResumes.notQualified, now);
+    expect(report.unparsed).toEqual(['Summers 2020-2022']);
+    expect(report.totalYears).toBeNull();
+  });
+});
+
+describe('runResumeScreening experience check', () => {
+  it('should report corrections for stale "Present" durations', async () => {
+    const result = await runResumeScreening(sampleResumes.strongMatch, defaultJob, {
+      provider: new MockProvider(),
+      now: () => new Date(2026, 0, 1)
+    });
+
+    // The mock trusts the stated "(3 years)", five years after the role began
+    expect(result.experience?.corrections).toContainEqual(
+      expect.objectContaining({ path: ['experience_analysis', 'work_history', 0, 'duration_months'], reported: 36, computed: 61 })
+    );
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * ExperienceDuration.ts - Cross-check Tenure Arithmetic Against Resume Dates
+ *
+ * WorkExperience.duration is free text ("Jan 2021 - Present (3 years)"),
+ * and the model fills in work_history[].duration_months and total_years on
+ * its own. This module parses the date ranges, merges overlapping roles so
+ * concurrent jobs are not counted twice, and reports every number the
+ * model got wrong as a correction.
+ *
+ * Supported range endpoints:
+ * - "Jan 2021", "January 2021", "Sept. 2019"
+ * - "03/2019", "2019-03"
+ * - "2020" (year precision: any month of that year, so "2018 - 2020" is
+ *   anywhere from 14 to 36 months)
+ * - "Present", "Current", "Now", "Today"
+ *
+ * Ranges that cannot be parsed ("Summers 2020-2022") are listed, not guessed.
+ */
+
+import { ResumeScreening } from './SGRSchema.js';
+import { experienceConfig } from './config.js';
+import { Resume } from './examples/resumes.js';
+
+/**
+ * YearMonth - A calendar month (month is 1-12)
+ */
+export interface YearMonth {
+  year: number;
+  month: number;
+}
+
+/**
+ * DateRange - Parsed WorkExperience.duration
+ */
+export interface DateRange {
+  start: YearMonth;
+  end: YearMonth;
+  // End was "Present" (resolved against the clock)
+  ongoing: boolean;
+  // 'year' when either endpoint only gave a year
+  precision: 'month' | 'year';
+  // Inclusive month count ("Sep 2022 - May 2023" is 9); the longest reading
+  months: number;
+  // Latest start and earliest end the dates allow (start/end for month precision)
+  shortest: { start: YearMonth; end: YearMonth };
+  // Shortest reading ("2018 - 2020" is Dec 2018 - Jan 2020, 14 months)
+  minMonths: number;
+}
+
+/**
+ * RoleDuration - One resume position with its parsed range
+ */
+export interface RoleDuration {
+  company: string;
+  title: string;
+  duration: string;
+  range: DateRange | null;
+}
+
+/**
+ * ExperienceCorrection - A model number that disagrees with the resume dates
+ */
+export interface ExperienceCorrection {
+  path: (string | number)[];
+  reported: number;
+  computed: number;
+  message: string;
+}
+
+/**
+ * ExperienceReport - Parsed tenure plus the corrections to the screening
+ */
+export interface ExperienceReport {
+  roles: RoleDuration[];
+  // Tenure with overlapping roles merged (null if any range was unparseable)
+  totalMonths: number | null;
+  totalYears: number | null;
+  // Shortest reading of year-precision dates (equal to the above otherwise)
+  minTotalMonths: number | null;
+  minTotalYears: number | null;
+  // Durations that could not be parsed, verbatim
+  unparsed: string[];
+  corrections: ExperienceCorrection[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const PRESENT = /^(present|current|now|today|ongoing)$/i;
+
+interface Endpoint {
+  date: YearMonth;
+  precision: 'month' | 'year';
+  ongoing: boolean;
+}
+
+function indexOf(date: YearMonth): number {
+  return date.year * 12 + (date.month - 1);
+}
+
+function fromIndex(index: number): YearMonth {
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+function validMonth(month: number): boolean {
+  return Number.isInteger(month) && month >= 1 && month <= 12;
+}
+
+function parseEndpoint(text: string, now: Date): Endpoint | null {
+  const value = text.trim().replace(/[.,]$/, '');
+
+  if (PRESENT.test(value)) {
+    return { date: { year: now.getFullYear(), month: now.getMonth() + 1 }, precision: 'month', ongoing: true };
+  }
+
+  const named = value.match(/^([a-z]+)\.?\s+(\d{4})$/i);
+  if (named) {
+    const name = named[1].toLowerCase().replace(/^sept/, 'sep');
+    const month = MONTHS.findIndex(m => name.length >= 3 && m.startsWith(name)) + 1;
+    return month > 0 ? { date: { year: parseInt(named[2], 10), month }, precision: 'month', ongoing: false } : null;
+  }
+
+  const numeric = value.match(/^(\d{1,2})[/.](\d{4})$/) ?? value.match(/^(\d{4})[-/.](\d{1,2})$/);
+  if (numeric) {
+    const [month, year] = numeric[1].length === 4
+      ? [parseInt(numeric[2], 10), parseInt(numeric[1], 10)]
+      : [parseInt(numeric[1], 10), parseInt(numeric[2], 10)];
+    return validMonth(month) ? { date: { year, month }, precision: 'month', ongoing: false } : null;
+  }
+
+  const year = value.match(/^(\d{4})$/);
+  if (year) {
+    return { date: { year: parseInt(year[1], 10), month: 1 }, precision: 'year', ongoing: false };
+  }
+
+  return null;
+}
+
+/**
+ * parseDateRange - Parse a WorkExperience.duration string
+ *
+ * Year-only endpoints span the whole year: start/end/months are the
+ * longest reading (January to December, capped at the current month) and
+ * shortest/minMonths the shortest (December to January).
+ *
+ * @param duration - Free-text range, e.g. "Jun 2018 - Dec 2020 (2.5 years)"
+ * @param now - Date that "Present" resolves to
+ * @returns The range, or null if it is not a recognizable range
+ */
+export function parseDateRange(duration: string, now: Date = new Date()): DateRange | null {
+  // Drop stated lengths like "(2.5 years)"; the dates are the source of truth
+  const text = duration.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+
+  // Spaced separators first, so "2019-03 - 2021-06" is not split inside a date
+  const splits = [/\s+(?:-|–|—|to|until)\s+/i, /\s*[–—-]\s*/];
+  for (const separator of splits) {
+    const parts = text.split(separator);
+    if (parts.length !== 2) continue;
+
+    const start = parseEndpoint(parts[0], now);
+    const end = parseEndpoint(parts[1], now);
+    if (!start || !end || start.ongoing) continue;
+
+    const current = { year: now.getFullYear(), month: now.getMonth() + 1 };
+    let endDate = end.precision === 'year' ? { year: end.date.year, month: 12 } : end.date;
+    if (indexOf(endDate) > indexOf(current)) endDate = current;
+    if (indexOf(endDate) < indexOf(start.date)) return null;
+
+    // Shortest reading, kept inside the longest one; "2020 - 2020" may be a single month
+    const earliestEnd = Math.min(Math.max(indexOf(end.date), indexOf(start.date)), indexOf(endDate));
+    const latestStart = Math.min(
+      start.precision === 'year' ? indexOf({ year: start.date.year, month: 12 }) : indexOf(start.date),
+      earliestEnd
+    );
+
+    return {
+      start: start.date,
+      end: endDate,
+      ongoing: end.ongoing,
+      precision: start.precision === 'year' || end.precision === 'year' ? 'year' : 'month',
+      months: indexOf(endDate) - indexOf(start.date) + 1,
+      shortest: { start: fromIndex(latestStart), end: fromIndex(earliestEnd) },
+      minMonths: earliestEnd - latestStart + 1
+    };
+  }
+
+  return null;
+}
+
+/**
+ * mergedMonths - Months covered by any range, counting overlaps once
+ *
+ * @param reading - 'shortest' merges each range's shortest reading instead
+ */
+export function mergedMonths(ranges: DateRange[], reading: 'longest' | 'shortest' = 'longest'): number {
+  const spans = ranges
+    .map(r => (reading === 'longest' ? r : r.shortest))
+    .map(r => [indexOf(r.start), indexOf(r.end)] as [number, number])
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const span of spans) {
+    if (current && span[0] <= current[1] + 1) {
+      current[1] = Math.max(current[1], span[1]);
+      continue;
+    }
+    if (current) total += current[1] - current[0] + 1;
+    current = [...span];
+  }
+  if (current) total += current[1] - current[0] + 1;
+  return total;
+}
+
+// ============================================================================
+// Screening Check
+// ============================================================================
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function toYears(months: number): number {
+  return Math.round((months / 12) * 10) / 10;
+}
+
+/**
+ * Nearest value in [min, max] when value lies outside it by more than tolerance
+ */
+function outside(value: number, min: number, max: number, tolerance: number): number | null {
+  if (value < min - tolerance) return min;
+  if (value > max + tolerance) return max;
+  return null;
+}
+
+function describeSpan(min: number, max: number, unit: string): string {
+  return min === max ? `${max} ${unit}` : `${min}-${max} ${unit}`;
+}
+
+/**
+ * checkExperienceDurations - Compare the model's tenure numbers with the resume dates
+ *
+ * work_history entries are matched to resume positions by company and role
+ * (then by company alone, then by position). total_years is checked against
+ * merged tenure only when every range parsed. Year-precision dates only
+ * produce a correction when the model's number fits no reading of them.
+ *
+ * @param screening - Screening to check
+ * @param resume - Resume the screening was produced from
+ * @param now - Date that "Present" resolves to
+ * @returns Parsed tenure and corrections (empty when the arithmetic holds)
+ */
+export function checkExperienceDurations(
+  screening: ResumeScreening,
+  resume: Resume,
+  now: Date = new Date()
+): ExperienceReport {
+  const roles: RoleDuration[] = resume.experience.map(exp => ({
+    company: exp.company,
+    title: exp.title,
+    duration: exp.duration,
+    range: parseDateRange(exp.duration, now)
+  }));
+  const unparsed = roles.filter(r => r.range === null).map(r => r.duration);
+  const corrections: ExperienceCorrection[] = [];
+
+  const history = screening.experience_analysis.work_history;
+  const claimed = new Set<number>();
+  history.forEach((entry, i) => {
+    const candidates = roles.map((role, index) => ({ role, index })).filter(({ index }) => !claimed.has(index));
+    const match =
+      candidates.find(({ role }) => sameText(role.company, entry.company) && sameText(role.title, entry.role)) ??
+      candidates.find(({ role }) => sameText(role.company, entry.company)) ??
+      (history.length === roles.length ? candidates.find(({ index }) => index === i) : undefined);
+    if (!match) return;
+    claimed.add(match.index);
+
+    const range = match.role.range;
+    if (!range) return;
+    const computed = outside(entry.duration_months, range.minMonths, range.months, experienceConfig.monthTolerance);
+    if (computed !== null) {
+      corrections.push({
+        path: ['experience_analysis', 'work_history', i, 'duration_months'],
+        reported: entry.duration_months,
+        computed,
+        message: `"${match.role.duration}" is ${describeSpan(range.minMonths, range.months, 'months')}, not ${entry.duration_months}`
+      });
+    }
+  });
+
+  const ranges = roles.map(r => r.range).filter((r): r is DateRange => r !== null);
+  const totalMonths = unparsed.length === 0 ? mergedMonths(ranges) : null;
+  const totalYears = totalMonths === null ? null : toYears(totalMonths);
+  const minTotalMonths = unparsed.length === 0 ? mergedMonths(ranges, 'shortest') : null;
+  const minTotalYears = minTotalMonths === null ? null : toYears(minTotalMonths);
+
+  const reportedYears = screening.experience_analysis.total_years;
+  if (totalYears !== null && minTotalYears !== null) {
+    const computed = outside(reportedYears, minTotalYears, totalYears, experienceConfig.totalYearsTolerance);
+    if (computed !== null) {
+      corrections.push({
+        path: ['experience_analysis', 'total_years'],
+        reported: reportedYears,
+        computed,
+        message: `resume dates add up to ${describeSpan(minTotalYears, totalYears, 'years')} (overlaps counted once), not ${reportedYears}`
+      });
+    }
+  }
+
+  return { roles, totalMonths, totalYears, minTotalMonths, minTotalYears, unparsed, corrections };
+}
@@ -0,0 +1,111 @@
+/**
+ * Fairness Audit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { auditFairness, buildFairnessVariants, spreadOf } from './FairnessAudit.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes, Resume, formatResumeAsText } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const alex = sampleResumes.strongMatch;
+
+describe('buildFairnessVariants', () => {
+  it('should change exactly one attribute per variant', () => {
+    const variants = buildFairnessVariants(alex, { names: ['Lakisha Washington', 'Alex Chen'] });
+
+    expect(variants.map(v => v.id)).toEqual([
+      'name:Lakisha Washington',
+      'pronouns:she/her',
+      'pronouns:he/him',
+      'pronouns:they/them',
+      'graduation_year:-20',
+      'graduation_year:-10',
+      'school:Harvard University',
+      'school:Lakeside Community College'
+    ]);
+
+    const renamed = variants[0].resume;
+    expect(renamed).toMatchObject({ name: 'Lakisha Washington', email: 'lakisha.washington@email.com' });
+    expect({ ...renamed, name: alex.name, email: alex.email }).toEqual(alex);
+
+    expect(variants[4].resume.education[0].year).toBe(alex.education[0].year! - 20);
+    expect(variants[6].resume.education[0].institution).toBe('Harvard University');
+  });
+
+  it('should swap names and gendered pronouns in free text', () => {
+    const resume: Resume = {
+      ...alex,
+      summary: 'Alex Chen leads platform work. He mentored juniors and his team shipped weekly; Alex thanks him.'
+    };
+    const [renamed] = buildFairnessVariants(resume, { dimensions: ['name'], names: ['Emily Walsh'] });
+    expect(renamed.resume.summary).toBe('Emily Walsh leads platform work. He mentored juniors and his team shipped weekly; Emily thanks him.');
+
+    const [she] = buildFairnessVariants(resume, { dimensions: ['pronouns'], pronouns: ['she/her'] });
+    expect(she.resume).toMatchObject({ name: alex.name, pronouns: 'she/her' });
+    expect(she.resume.summary).toBe('Alex Chen leads platform work. She mentored juniors and her team shipped weekly; Alex thanks her.');
+
+    const [he] = buildFairnessVariants(she.resume, { dimensions: ['pronouns'], pronouns: ['he/him'] });
+    expect(he.resume.summary).toBe(resume.summary);
+
+    const promoted: Resume = { ...alex, summary: 'Her manager promoted her to lead the team and gave her the award for her work.' };
+    const [him] = buildFairnessVariants(promoted, { dimensions: ['pronouns'], pronouns: ['he/him'] });
+    expect(him.resume.summary).toBe('His manager promoted him to lead the team and gave him the award for his work.');
+  });
+
+  it('should only replace a name where it is written as one', () => {
+    const resume: Resume = { ...alex, name: 'Will Mark', summary: 'Will Mark will mark every release; Will signs off.' };
+    const [renamed] = buildFairnessVariants(resume, { dimensions: ['name'], names: ['Emily Walsh'] });
+    expect(renamed.resume.summary).toBe('Emily Walsh will mark every release; Emily signs off.');
+
+    const [they] = buildFairnessVariants(resume, { dimensions: ['pronouns'], pronouns: ['they/them'] });
+    expect(they.resume).toEqual({ ...resume, pronouns: 'they/them' });
+    expect(formatResumeAsText(they.resume)).toContain('Pronouns: they/them');
+  });
+});
+
+describe('spreadOf', () => {
+  it('should compute range, mean and standard deviation', () => {
+    expect(spreadOf([80, 80, 90, 90])).toEqual({ count: 4, min: 80, max: 90, range: 10, mean: 85, stdDev: 5 });
+    expect(spreadOf([])).toBeNull();
+  });
+});
+
+describe('auditFairness', () => {
+  it('should find no differences with a consistent screener', async () => {
+    const report = await auditFairness(alex, defaultJob, { provider: new MockProvider() });
+
+    expect(report.consistent).toBe(true);
+    expect(report.changes).toEqual([]);
+    expect(report.variants).toHaveLength(15);
+    expect(report.spread).toMatchObject({ count: 16, range: 0, stdDev: 0 });
+  });
+
+  it('should report outcome changes from a biased screener', async () => {
+    const biased = new MockProvider({
+      handlers: {
+        ResumeScreening: request => {
+          const { resume, job } = request.context as { resume: Resume; job: typeof defaultJob };
+          const screening = buildMockScreening(resume, job);
+          const penalized = resume.education.some(e => e.year !== undefined && e.year < 2000);
+          return penalized
+            ? { ...screening, fit_score: 70, overall_fit: 'qualified', recommended_action: 'phone_screen_first', review_flags: null }
+            : screening;
+        }
+      }
+    });
+
+    const report = await auditFairness(alex, defaultJob, { provider: biased, dimensions: ['graduation_year', 'school'] });
+
+    expect(report.consistent).toBe(false);
+    expect(report.changes.map(c => `${c.variantId} ${c.field}`)).toEqual([
+      'graduation_year:-20 fit_score',
+      'graduation_year:-20 overall_fit',
+      'graduation_year:-20 recommended_action'
+    ]);
+    expect(report.spreadByDimension.graduation_year?.range).toBe(report.baseline.fitScore! - 70);
+    expect(report.spreadByDimension.school?.range).toBe(0);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * FairnessAudit.ts - Counterfactual Fairness Checks for Screenings
+ *
+ * Equivalent candidates should get the same screening. The audit takes one
+ * Resume, builds controlled variants that differ in a single attribute the
+ * job does not care about, screens them all, and reports every variant
+ * whose fit_score, overall_fit or recommended_action differs from the
+ * original:
+ *
+ * - name: swapped for names signalling other genders and ethnicities
+ * - pronouns: declared pronouns (Resume.pronouns), with gendered pronouns in the text swapped
+ * - graduation_year: every graduation year shifted (age signal)
+ * - school: every institution replaced
+ *
+ * With a perfectly consistent screener every variant matches the baseline
+ * and the fit_score spread is zero.
+ */
+
+import { ScreeningOptions } from './LLMAgent.js';
+import { screenBatch } from './BatchScreening.js';
+import { CandidateFit, RecommendedAction } from './SGRSchema.js';
+import { fairnessConfig } from './config.js';
+import { Resume } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+export type FairnessDimension = 'name' | 'pronouns' | 'graduation_year' | 'school';
+
+export const FAIRNESS_DIMENSIONS: FairnessDimension[] = ['name', 'pronouns', 'graduation_year', 'school'];
+
+/**
+ * FairnessVariant - A resume differing from the original in one attribute
+ */
+export interface FairnessVariant {
+  id: string;
+  dimension: FairnessDimension;
+  description: string;
+  resume: Resume;
+}
+
+/**
+ * VariantOutcome - What the screener decided for one variant
+ */
+export interface VariantOutcome {
+  variantId: string;
+  dimension: FairnessDimension | 'baseline';
+  description: string;
+  success: boolean;
+  fitScore: number | null;
+  overallFit: CandidateFit | null;
+  recommendedAction: RecommendedAction | null;
+  error?: string;
+}
+
+/**
+ * OutcomeChange - A variant outcome that differs from the baseline
+ */
+export interface OutcomeChange {
+  variantId: string;
+  dimension: FairnessDimension;
+  field: 'fit_score' | 'overall_fit' | 'recommended_action';
+  baseline: number | string;
+  variant: number | string;
+}
+
+/**
+ * SpreadStats - Spread of fit_score across screenings
+ */
+export interface SpreadStats {
+  count: number;
+  min: number;
+  max: number;
+  range: number;
+  mean: number;
+  stdDev: number;
+}
+
+/**
+ * FairnessReport - Result of auditFairness
+ */
+export interface FairnessReport {
+  candidateId: string;
+  jobId: string;
+  baseline: VariantOutcome;
+  variants: VariantOutcome[];
+  changes: OutcomeChange[];
+  // fit_score spread over the baseline and all variants, and per dimension (baseline included)
+  spread: SpreadStats | null;
+  spreadByDimension: Partial<Record<FairnessDimension, SpreadStats>>;
+  // No changes and every screening succeeded
+  consistent: boolean;
+}
+
+/**
+ * FairnessAuditOptions - Which variants to build, plus screening overrides
+ */
+export interface FairnessAuditOptions extends ScreeningOptions {
+  dimensions?: FairnessDimension[];
+  names?: readonly string[];
+  pronouns?: readonly string[];
+  graduationYearShifts?: readonly number[];
+  schools?: readonly string[];
+  // fit_score differences up to this are not reported (defaults to fairnessConfig.scoreTolerance)
+  scoreTolerance?: number;
+  // Screenings in flight at once
+  concurrency?: number;
+}
+
+// ============================================================================
+// Variants
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace whole-word occurrences, keeping a leading capital
+ *
+ * A function replacement also receives the word that follows (empty at
+ * the end of a sentence), to tell "her resume" from "hired her".
+ * Names are matched case-sensitively, so "Will" does not replace "will".
+ */
+function replaceWord(
+  text: string,
+  word: string,
+  replacement: string | ((next: string) => string),
+  ignoreCase = true
+): string {
+  return text.replace(new RegExp(`\\b${escapeRegExp(word)}\\b(?=(?:\\s+(\\w+))?)`, ignoreCase ? 'gi' : 'g'), (match, next?: string) => {
+    const value = typeof replacement === 'string' ? replacement : replacement(next ?? '');
+    return match[0] === match[0].toUpperCase() ? value[0].toUpperCase() + value.slice(1) : value;
+  });
+}
+
+/**
+ * Apply fn to the resume's free text (summary, achievements, project descriptions)
+ */
+function mapResumeText(resume: Resume, fn: (text: string) => string): Resume {
+  return {
+    ...resume,
+    summary: fn(resume.summary),
+    experience: resume.experience.map(e => ({ ...e, achievements: e.achievements.map(fn) })),
+    projects: resume.projects?.map(p => ({ ...p, description: fn(p.description) }))
+  };
+}
+
+function withName(resume: Resume, name: string): Resume {
+  const [first, ...rest] = resume.name.split(/\s+/);
+  const [newFirst, ...newRest] = name.split(/\s+/);
+  const local = name.toLowerCase().normalize('NFD').replace(/[^a-z\s]/g, '').trim().replace(/\s+/g, '.');
+  const renamed = mapResumeText(resume, text => {
+    let result = replaceWord(text, resume.name, name, false);
+    result = replaceWord(result, first, newFirst, false);
+    if (rest.length > 0 && newRest.length > 0) result = replaceWord(result, rest.join(' '), newRest.join(' '), false);
+    return result;
+  });
+  return { ...renamed, name, email: `${local}@email.com` };
+}
+
+/**
+ * Words after which "her" is an object ("promoted her to lead", "gave her the
+ * award") rather than a possessive ("her team")
+ */
+const OBJECT_FOLLOWERS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'and', 'or', 'but', 'as', 'to', 'for', 'from', 'with', 'by', 'at', 'in',
+  'into', 'on', 'onto', 'of', 'about', 'after', 'before', 'over', 'through', 'up', 'out', 'off', 'down',
+  'back', 'away', 'again', 'how', 'why', 'what', 'when'
+]);
+
+function herAsHe(next: string): string {
+  return !next || OBJECT_FOLLOWERS.has(next.toLowerCase()) ? 'him' : 'his';
+}
+
+function withPronouns(resume: Resume, pronouns: string): Resume {
+  const swaps: Array<[string, string | ((next: string) => string)]> =
+    pronouns.startsWith('she') ? [['he', 'she'], ['him', 'her'], ['his', 'her'], ['himself', 'herself']] :
+    pronouns.startsWith('he') ? [['she', 'he'], ['hers', 'his'], ['herself', 'himself'], ['her', herAsHe]] :
+    [];
+  const swapped = mapResumeText(resume, text => swaps.reduce((t, [word, replacement]) => replaceWord(t, word, replacement), text));
+  // Declared on the resume; the name stays the same so only one attribute changes
+  return { ...swapped, pronouns };
+}
+
+/**
+ * buildFairnessVariants - Controlled single-attribute variants of a resume
+ *
+ * Variants identical to the original (e.g. the same name) are skipped.
+ */
+export function buildFairnessVariants(resume: Resume, options: FairnessAuditOptions = {}): FairnessVariant[] {
+  const dimensions = options.dimensions ?? FAIRNESS_DIMENSIONS;
+  const variants: FairnessVariant[] = [];
+  const add = (dimension: FairnessDimension, value: string, description: string, variant: Resume) => {
+    if (JSON.stringify(variant) === JSON.stringify(resume)) return;
+    variants.push({ id: `${dimension}:${value}`, dimension, description, resume: variant });
+  };
+
+  if (dimensions.includes('name')) {
+    for (const name of options.names ?? fairnessConfig.names) {
+      if (name === resume.name) continue;
+      add('name', name, `name "${resume.name}" -> "${name}"`, withName(resume, name));
+    }
+  }
+
+  if (dimensions.includes('pronouns')) {
+    for (const pronouns of options.pronouns ?? fairnessConfig.pronouns) {
+      add('pronouns', pronouns, `declares ${pronouns}`, withPronouns(resume, pronouns));
+    }
+  }
+
+  if (dimensions.includes('graduation_year') && resume.education.some(e => e.year !== undefined)) {
+    for (const shift of options.graduationYearShifts ?? fairnessConfig.graduationYearShifts) {
+      const education = resume.education.map(e => (e.year === undefined ? e : { ...e, year: e.year + shift }));
+      add('graduation_year', String(shift), `graduation years ${shift > 0 ? '+' : ''}${shift}`, { ...resume, education });
+    }
+  }
+
+  if (dimensions.includes('school') && resume.education.length > 0) {
+    for (const school of options.schools ?? fairnessConfig.schools) {
+      const schools = [...new Set(resume.education.map(e => e.institution))];
+      const education = resume.education.map(e => ({ ...e, institution: school }));
+      const renamed = mapResumeText({ ...resume, education }, text => schools.reduce((t, s) => replaceWord(t, s, school), text));
+      add('school', school, `school -> "${school}"`, renamed);
+    }
+  }
+
+  return variants;
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * spreadOf - Range and population standard deviation (null for no values)
+ */
+export function spreadOf(values: number[]): SpreadStats | null {
+  if (values.length === 0) return null;
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return { count: values.length, min, max, range: max - min, mean: round2(mean), stdDev: round2(Math.sqrt(variance)) };
+}
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+/**
+ * auditFairness - Screen a resume and its variants, and report differences
+ *
+ * @param resume - Original resume (the baseline)
+ * @param job - Job to screen against
+ * @param options - Variant selection, tolerance and screening overrides
+ * @returns Per-variant outcomes, changes against the baseline and fit_score spread
+ */
+export async function auditFairness(
+  resume: Resume,
+  job: JobDescription,
+  options: FairnessAuditOptions = {}
+): Promise<FairnessReport> {
+  const { dimensions, names, pronouns, graduationYearShifts, schools, scoreTolerance, concurrency, ...screeningOptions } = options;
+  const variants = buildFairnessVariants(resume, { dimensions, names, pronouns, graduationYearShifts, schools });
+  const tolerance = scoreTolerance ?? fairnessConfig.scoreTolerance;
+
+  const batch = await screenBatch([resume, ...variants.map(v => v.resume)], job, { ...screeningOptions, concurrency });
+  const outcomes: VariantOutcome[] = batch.items.map((item, i) => {
+    const variant = i === 0 ? null : variants[i - 1];
+    return {
+      variantId: variant?.id ?? 'baseline',
+      dimension: variant?.dimension ?? 'baseline',
+      description: variant?.description ?? 'original resume',
+      success: item.success,
+      fitScore: item.data?.fit_score ?? null,
+      overallFit: item.data?.overall_fit ?? null,
+      recommendedAction: item.data?.recommended_action ?? null,
+      ...(item.success ? {} : { error: item.error?.message })
+    };
+  });
+  const [baseline, ...variantOutcomes] = outcomes;
+
+  const changes: OutcomeChange[] = [];
+  if (baseline.success) {
+    variantOutcomes.forEach((outcome, i) => {
+      if (!outcome.success) return;
+      const dimension = variants[i].dimension;
+      const push = (field: OutcomeChange['field'], before: number | string, after: number | string) =>
+        changes.push({ variantId: outcome.variantId, dimension, field, baseline: before, variant: after });
+
+      if (Math.abs(outcome.fitScore! - baseline.fitScore!) > tolerance) push('fit_score', baseline.fitScore!, outcome.fitScore!);
+      if (outcome.overallFit !== baseline.overallFit) push('overall_fit', baseline.overallFit!, outcome.overallFit!);
+      if (outcome.recommendedAction !== baseline.recommendedAction) {
+        push('recommended_action', baseline.recommendedAction!, outcome.recommendedAction!);
+      }
+    });
+  }
+
+  const scores = (list: VariantOutcome[]) => list.filter(o => o.fitScore !== null).map(o => o.fitScore!);
+  const spreadByDimension: FairnessReport['spreadByDimension'] = {};
+  for (const dimension of new Set(variants.map(v => v.dimension))) {
+    spreadByDimension[dimension] = spreadOf(scores([baseline, ...variantOutcomes.filter(o => o.dimension === dimension)])) ?? undefined;
+  }
+
+  const spread = spreadOf(scores(outcomes));
+  console.log(`[Fairness] ${variants.length} variants, ${changes.length} outcome change(s), fit_score range ${spread?.range ?? '-'}`);
+
+  return {
+    candidateId: resume.candidateId,
+    jobId: job.jobId,
+    baseline,
+    variants: variantOutcomes,
+    changes,
+    spread,
+    spreadByDimension,
+    consistent: changes.length === 0 && outcomes.every(o => o.success)
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Few-Shot Selector Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  selectFewShotExamples,
+  jobSimilarity,
+  exampleTokens,
+  seedFewShotExamples
+} from './FewShotSelector.js';
+import { FewShotExample, defaultScreeningPrompt } from './PromptRegistry.js';
+import { ScreeningStore } from './ScreeningStore.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { CompletionRequest } from './LLMProvider.js';
+import { defaultJob, juniorFrontendDeveloper } from './examples/jobDescriptions.js';
+import { sampleResumes, Resume } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const { strongMatch: alex, potentialFit: jordan, notQualified: taylor } = sampleResumes;
+
+function example(resume: Resume, job = defaultJob): FewShotExample {
+  return { resume, job, screening: buildMockScreening(resume, job) };
+}
+
+describe('jobSimilarity', () => {
+  it('should score title and skill overlap between 0 and 1', () => {
+    expect(jobSimilarity(defaultJob, defaultJob)).toBe(1);
+    const cross = jobSimilarity(defaultJob, juniorFrontendDeveloper);
+    expect(cross).toBeGreaterThanOrEqual(0);
+    expect(cross).toBeLessThan(1);
+    expect(jobSimilarity(defaultJob, { ...juniorFrontendDeveloper, title: defaultJob.title }, { skillWeight: 0 })).toBe(1);
+  });
+});
+
+describe('selectFewShotExamples', () => {
+  const pool = [example(taylor, juniorFrontendDeveloper), example(jordan), example(alex)];
+
+  it('should rank by similarity and skip the candidate being screened', () => {
+    const { examples, report } = selectFewShotExamples(defaultJob, alex.candidateId, defaultScreeningPrompt, {
+      examples: pool,
+      minSimilarity: 0
+    });
+
+    expect(examples.map(e => e.resume.candidateId)).toEqual([jordan.candidateId, taylor.candidateId]);
+    expect(report.source).toBe('examples');
+    expect(report.considered).toBe(2);
+    expect(report.selected[0]).toMatchObject({ jobId: defaultJob.jobId, similarity: 1 });
+    expect(report.tokensUsed).toBe(report.selected.reduce((sum, s) => sum + s.tokens, 0));
+  });
+
+  it('should stay within the token budget and example limit', () => {
+    const jordanTokens = exampleTokens(pool[1], defaultScreeningPrompt);
+    const options = { examples: pool, minSimilarity: 0 };
+
+    const tight = selectFewShotExamples(defaultJob, 'CAND-NEW', defaultScreeningPrompt, { ...options, tokenBudget: jordanTokens - 1 });
+    expect(tight.report.tokensUsed).toBeLessThanOrEqual(jordanTokens - 1);
+    expect(tight.report.selected.map(s => s.candidateId)).not.toContain(jordan.candidateId);
+
+    const one = selectFewShotExamples(defaultJob, 'CAND-NEW', defaultScreeningPrompt, { ...options, maxExamples: 1 });
+    expect(one.examples).toHaveLength(1);
+    expect(selectFewShotExamples(defaultJob, 'CAND-NEW', defaultScreeningPrompt, { ...options, tokenBudget: 0 }).examples).toEqual([]);
+  });
+
+  it('should use approved store screenings, falling back to the seed example', async () => {
+    const store = new ScreeningStore(join(mkdtempSync(join(tmpdir(), 'sgr-fewshot-')), 'screenings.jsonl'));
+    const seeded = selectFewShotExamples(defaultJob, jordan.candidateId, defaultScreeningPrompt, { store });
+    expect(seeded.examples).toEqual(seedFewShotExamples);
+    expect(seeded.report.source).toBe('seed');
+
+    const { record } = store.save(await runResumeScreening(taylor, defaultJob, { provider: new MockProvider() }), taylor, defaultJob);
+    store.label(record.id, { approved: true, reviewer: 'sam' });
+
+    const { examples, report } = selectFewShotExamples(defaultJob, jordan.candidateId, defaultScreeningPrompt, { store });
+    expect(report.source).toBe('store');
+    expect(examples.map(e => e.resume.candidateId)).toEqual([taylor.candidateId]);
+    expect(examples[0].screening).toEqual(record.screening);
+  });
+});
+
+describe('runResumeScreening few-shot', () => {
+  function recordingProvider(requests: CompletionRequest[]) {
+    const base = new MockProvider();
+    return {
+      name: 'recording',
+      complete: (request: CompletionRequest) => {
+        requests.push(request);
+        return base.complete(request);
+      }
+    };
+  }
+
+  it('should send the selected examples before the request', async () => {
+    const requests: CompletionRequest[] = [];
+    const result = await runResumeScreening(alex, defaultJob, {
+      provider: recordingProvider(requests),
+      fewShot: { examples: [example(jordan)] }
+    });
+
+    expect(requests[0].messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(requests[0].messages[1].content).toContain(`Candidate ID: ${jordan.candidateId}`);
+    expect(result.fewShot?.selected.map(s => s.candidateId)).toEqual([jordan.candidateId]);
+  });
+
+  it('should redact examples along with the resume', async () => {
+    const requests: CompletionRequest[] = [];
+    await runResumeScreening(alex, defaultJob, {
+      provider: recordingProvider(requests),
+      redaction: { enabled: true },
+      fewShot: { examples: [example(jordan)] }
+    });
+
+    const [input, output] = requests[0].messages.slice(1, 3).map(m => m.content);
+    expect(input).not.toContain(jordan.name);
+    expect(input).toMatch(/Candidate [0-9A-F]{6}/);
+    expect(output).not.toContain(jordan.name);
+  });
+});
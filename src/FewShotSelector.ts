@@ -0,0 +1,189 @@
+/**
+ * FewShotSelector.ts - Similar Past Screenings as Few-Shot Examples
+ *
+ * A worked example of a similar job shows the model what a good screening
+ * looks like far better than the schema alone. The selector ranks labeled
+ * past screenings by how similar their job is to the current one and adds
+ * the best ones to the prompt as user/assistant turns:
+ *
+ *   similarity = titleWeight * title word overlap + skillWeight * skill overlap
+ *
+ * Both overlaps are Jaccard indexes; skills are the canonical taxonomy
+ * skills found in the required and preferred requirements. Examples are
+ * taken most similar first while they fit the token budget.
+ *
+ * Examples come from the ScreeningStore (screenings a reviewer approved,
+ * see ScreeningStore.label() or `cli label`) or an explicit list. Until a
+ * store has approved screenings, the built-in seed example is used and
+ * FewShotReport.source says so. Screenings of the candidate being screened
+ * are never used, so the model cannot copy an earlier verdict.
+ */
+
+import { ScreeningStore } from './ScreeningStore.js';
+import { FewShotExample, PromptTemplate, buildPromptVariables, interpolate } from './PromptRegistry.js';
+import { SkillTaxonomy, defaultSkillTaxonomy } from './SkillTaxonomy.js';
+import { exampleResumeScreening } from './SGRSchema.js';
+import { fewShotConfig } from './config.js';
+import { sampleResumes } from './examples/resumes.js';
+import { JobDescription, defaultJob } from './examples/jobDescriptions.js';
+
+/**
+ * FewShotOptions - Where examples come from and how many fit
+ */
+export interface FewShotOptions {
+  // Approved screenings in this store are the candidates (seedFewShotExamples if none)
+  store?: ScreeningStore;
+  // Explicit candidates (used instead of the store)
+  examples?: FewShotExample[];
+  tokenBudget?: number;
+  maxExamples?: number;
+  minSimilarity?: number;
+  titleWeight?: number;
+  skillWeight?: number;
+  taxonomy?: SkillTaxonomy;
+}
+
+/**
+ * SelectedExample - One example that made it into the prompt
+ */
+export interface SelectedExample {
+  candidateId: string;
+  jobId: string;
+  similarity: number;
+  // Estimated prompt tokens for the example turn pair
+  tokens: number;
+}
+
+/**
+ * FewShotReport - What the selector picked and why
+ */
+export interface FewShotReport {
+  // Where the examples came from: options.examples, approved store screenings or seedFewShotExamples
+  source: 'examples' | 'store' | 'seed';
+  selected: SelectedExample[];
+  // Examples ranked (after excluding the candidate's own screenings)
+  considered: number;
+  tokensUsed: number;
+  tokenBudget: number;
+}
+
+/**
+ * FewShotSelection - Examples for renderPrompt plus the report
+ */
+export interface FewShotSelection {
+  examples: FewShotExample[];
+  report: FewShotReport;
+}
+
+/**
+ * Built-in example for stores with no approved screenings yet
+ */
+export const seedFewShotExamples: FewShotExample[] = [
+  { resume: sampleResumes.strongMatch, job: defaultJob, screening: exampleResumeScreening }
+];
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+const TITLE_STOPWORDS = new Set(['a', 'an', 'and', 'of', 'the', 'for', 'i', 'ii', 'iii']);
+
+function titleWords(title: string): Set<string> {
+  return new Set((title.toLowerCase().match(/[a-z0-9+#]+/g) ?? []).filter(w => !TITLE_STOPWORDS.has(w)));
+}
+
+function jobSkills(job: JobDescription, taxonomy: SkillTaxonomy): Set<string> {
+  return new Set([...job.requirements.required, ...job.requirements.preferred].flatMap(r => taxonomy.skillsIn(r)));
+}
+
+/**
+ * Jaccard index of two sets (0 when both are empty)
+ */
+function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  const union = new Set([...a, ...b]).size;
+  if (union === 0) return 0;
+  return [...a].filter(item => b.has(item)).length / union;
+}
+
+/**
+ * jobSimilarity - 0..1 similarity of two jobs by title words and skills
+ */
+export function jobSimilarity(a: JobDescription, b: JobDescription, options: FewShotOptions = {}): number {
+  const taxonomy = options.taxonomy ?? defaultSkillTaxonomy;
+  const titleWeight = options.titleWeight ?? fewShotConfig.titleWeight;
+  const skillWeight = options.skillWeight ?? fewShotConfig.skillWeight;
+  const score =
+    titleWeight * jaccard(titleWords(a.title), titleWords(b.title)) +
+    skillWeight * jaccard(jobSkills(a, taxonomy), jobSkills(b, taxonomy));
+  return Math.round((score / (titleWeight + skillWeight)) * 1000) / 1000;
+}
+
+/**
+ * Rough token count (characters / fewShotConfig.charsPerToken)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / fewShotConfig.charsPerToken);
+}
+
+/**
+ * Estimated tokens for an example rendered with a template (input + output turn)
+ */
+export function exampleTokens(example: FewShotExample, template: PromptTemplate): number {
+  const input = interpolate(template.user, buildPromptVariables(example.resume, example.job, example.resumeText), template.id);
+  return estimateTokens(input) + estimateTokens(JSON.stringify(example.screening));
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Approved screenings in a store as few-shot examples
+ */
+export function labeledExamples(store: ScreeningStore): FewShotExample[] {
+  return store.approved().map(record => ({ resume: record.resume, job: record.job, screening: record.screening! }));
+}
+
+/**
+ * selectFewShotExamples - Most similar examples that fit the token budget
+ *
+ * Examples are ranked by jobSimilarity; an example that would overflow the
+ * budget is skipped and smaller, less similar ones are still tried.
+ *
+ * @param job - Job being screened
+ * @param candidateId - Candidate being screened (their own screenings are excluded)
+ * @param template - Template the examples are rendered with (for token estimates)
+ * @param options - Example source, budget and similarity overrides
+ */
+export function selectFewShotExamples(
+  job: JobDescription,
+  candidateId: string,
+  template: PromptTemplate,
+  options: FewShotOptions = {}
+): FewShotSelection {
+  const tokenBudget = options.tokenBudget ?? fewShotConfig.tokenBudget;
+  const maxExamples = options.maxExamples ?? fewShotConfig.maxExamples;
+  const minSimilarity = options.minSimilarity ?? fewShotConfig.minSimilarity;
+
+  const labeled = options.store ? labeledExamples(options.store) : [];
+  const source = options.examples ? 'examples' : labeled.length > 0 ? 'store' : 'seed';
+  const pool = options.examples ?? (labeled.length > 0 ? labeled : seedFewShotExamples);
+  const ranked = pool
+    .filter(example => example.resume.candidateId !== candidateId)
+    .map(example => ({ example, similarity: jobSimilarity(job, example.job, options) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const examples: FewShotExample[] = [];
+  const selected: SelectedExample[] = [];
+  let tokensUsed = 0;
+  for (const { example, similarity } of ranked) {
+    if (selected.length >= maxExamples || similarity < minSimilarity) break;
+    const tokens = exampleTokens(example, template);
+    if (tokensUsed + tokens > tokenBudget) continue;
+    examples.push(example);
+    selected.push({ candidateId: example.resume.candidateId, jobId: example.job.jobId, similarity, tokens });
+    tokensUsed += tokens;
+  }
+
+  return { examples, report: { source, selected, considered: ranked.length, tokensUsed, tokenBudget } };
+}
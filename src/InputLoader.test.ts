@@ -0,0 +1,94 @@
+/**
+ * Input Loader Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadResumes, loadJobs, loadJob, listInputFiles, InputValidationError, validateInputFile } from './InputLoader.js';
+import { sampleResumes } from './examples/resumes.js';
+import { allJobs } from './examples/jobDescriptions.js';
+
+const fixtures = join(__dirname, '..', 'fixtures');
+
+function tempFile(name: string, content: string): string {
+  const file = join(mkdtempSync(join(tmpdir(), 'sgr-input-')), name);
+  writeFileSync(file, content);
+  return file;
+}
+
+describe('fixtures', () => {
+  it('should load the sample resumes from JSON', () => {
+    const resumes = loadResumes(join(fixtures, 'resumes'));
+    const byId = (a: { candidateId: string }, b: { candidateId: string }) => a.candidateId.localeCompare(b.candidateId);
+    expect(resumes.sort(byId)).toEqual(Object.values(sampleResumes).sort(byId));
+  });
+
+  it('should load the sample jobs from JSON and YAML', () => {
+    const jobs = loadJobs(join(fixtures, 'jobs'));
+    expect(jobs.map(j => j.jobId).sort()).toEqual(allJobs.map(j => j.jobId).sort());
+    expect(loadJob(join(fixtures, 'jobs', 'junior-frontend-developer.yaml'))).toEqual(allJobs[1]);
+  });
+});
+
+describe('validation errors', () => {
+  it('should report precise paths for every invalid field', () => {
+    const file = tempFile('bad.yaml', [
+      'candidateId: CAND-X',
+      'name: Sam',
+      'email: not-an-email',
+      'summary: Engineer',
+      'experience:',
+      '  - company: Acme',
+      '    title: Engineer',
+      '    achievements: []',
+      'education: []',
+      'skills: [Go]'
+    ].join('\n'));
+
+    try {
+      loadResumes(file);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(InputValidationError);
+      const issues = (e as InputValidationError).issues;
+      expect(issues.map(i => i.path)).toEqual(['email', 'experience[0].duration']);
+      expect((e as Error).message).toContain(`${file}: experience[0].duration: Required`);
+    }
+  });
+
+  it('should prefix array entries with their index', () => {
+    const file = tempFile('jobs.json', JSON.stringify([allJobs[0], { ...allJobs[1], requirements: { required: [], preferred: [] } }]));
+    const { kind, issues } = validateInputFile(file);
+
+    expect(kind).toBe('job');
+    expect(issues.map(i => i.path)).toEqual(['[1].requirements.required']);
+  });
+
+  it('should report unparseable files', () => {
+    const file = tempFile('broken.json', '{"candidateId":');
+    expect(() => loadResumes(file)).toThrow(InputValidationError);
+  });
+});
+
+describe('listInputFiles', () => {
+  it('should search subdirectories', () => {
+    expect(listInputFiles(fixtures)).toEqual([
+      join(fixtures, 'jobs', 'junior-frontend-developer.yaml'),
+      join(fixtures, 'jobs', 'senior-software-engineer.json'),
+      join(fixtures, 'resumes', 'not-qualified.json'),
+      join(fixtures, 'resumes', 'potential-fit.json'),
+      join(fixtures, 'resumes', 'strong-match.json')
+    ]);
+  });
+
+  it('should reject a directory without input files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sgr-input-'));
+    mkdirSync(join(dir, 'empty'));
+    writeFileSync(join(dir, 'notes.txt'), 'not an input');
+
+    expect(() => listInputFiles(dir)).toThrow(/No \.json, \.yaml, \.yml files found/);
+    expect(() => loadResumes(dir)).toThrow(InputValidationError);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * InputLoader.ts - Load Resumes and Job Descriptions from Disk
+ *
+ * Accepts JSON and YAML files, or directories of them. A file may hold a
+ * single object or an array of objects. Every entry is parsed with the
+ * schemas from InputSchemas.ts, and all problems are collected into one
+ * InputValidationError with file- and path-level detail, e.g.
+ *
+ *   fixtures/resumes/bad.yaml: experience[0].duration: Required
+ */
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, extname } from 'node:path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { ResumeSchema, JobDescriptionSchema } from './InputSchemas.js';
+import { formatIssuePath } from './SchemaRepair.js';
+import { Resume } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+const SUPPORTED_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * InputIssue - One problem found while loading input files
+ */
+export interface InputIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * InputValidationError - Thrown when any input file is unreadable or invalid
+ */
+export class InputValidationError extends Error {
+  constructor(readonly issues: InputIssue[]) {
+    super(
+      `Invalid input (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n` +
+      issues.map(formatInputIssue).join('\n')
+    );
+    this.name = 'InputValidationError';
+  }
+}
+
+/**
+ * Render an issue as "file: path: message"
+ */
+export function formatInputIssue(issue: InputIssue): string {
+  return issue.path ? `${issue.file}: ${issue.path}: ${issue.message}` : `${issue.file}: ${issue.message}`;
+}
+
+/**
+ * Expand a file or directory into the supported input files it contains
+ *
+ * Directories are searched recursively (hidden entries are skipped).
+ *
+ * @throws InputValidationError if the path is missing or a directory holds no input files
+ */
+export function listInputFiles(path: string): string[] {
+  let stats;
+  try {
+    stats = statSync(path);
+  } catch {
+    throw new InputValidationError([{ file: path, path: '', message: 'File not found' }]);
+  }
+  if (!stats.isDirectory()) return [path];
+
+  const files = collectInputFiles(path);
+  if (files.length === 0) {
+    throw new InputValidationError([{ file: path, path: '', message: `No ${SUPPORTED_EXTENSIONS.join(', ')} files found` }]);
+  }
+  return files;
+}
+
+function collectInputFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) return collectInputFiles(path);
+      return SUPPORTED_EXTENSIONS.includes(extname(entry.name).toLowerCase()) ? [path] : [];
+    });
+}
+
+/**
+ * Read and parse a JSON or YAML file into an untyped value
+ */
+export function readInputFile(file: string): unknown {
+  const extension = extname(file).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new InputValidationError([{
+      file,
+      path: '',
+      message: `Unsupported file type '${extension}' (expected ${SUPPORTED_EXTENSIONS.join(', ')})`
+    }]);
+  }
+
+  try {
+    const text = readFileSync(file, 'utf8');
+    return extension === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    throw new InputValidationError([{
+      file,
+      path: '',
+      message: e instanceof Error ? e.message : 'Unreadable file'
+    }]);
+  }
+}
+
+/**
+ * Validate a value against a schema, prefixing issue paths with the array index
+ */
+function validateEntries<T>(
+  schema: z.ZodType<T>,
+  value: unknown,
+  file: string
+): { entries: T[]; issues: InputIssue[] } {
+  const isArray = Array.isArray(value);
+  const items: unknown[] = isArray ? value : [value];
+  const entries: T[] = [];
+  const issues: InputIssue[] = [];
+
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      entries.push(result.data);
+      return;
+    }
+    for (const issue of result.error.issues) {
+      const path = isArray ? [index, ...issue.path] : issue.path;
+      issues.push({
+        file,
+        path: path.length > 0 ? formatIssuePath(path) : '',
+        message: issue.message
+      });
+    }
+  });
+
+  return { entries, issues };
+}
+
+/**
+ * Load every entry of one kind from a file or directory, collecting all issues
+ */
+function loadAll<T>(schema: z.ZodType<T>, path: string): T[] {
+  const entries: T[] = [];
+  const issues: InputIssue[] = [];
+
+  for (const file of listInputFiles(path)) {
+    try {
+      const result = validateEntries(schema, readInputFile(file), file);
+      entries.push(...result.entries);
+      issues.push(...result.issues);
+    } catch (e) {
+      if (e instanceof InputValidationError) issues.push(...e.issues);
+      else throw e;
+    }
+  }
+
+  if (issues.length > 0) throw new InputValidationError(issues);
+  return entries;
+}
+
+/**
+ * loadResumes - Load and validate resumes from a file or directory
+ *
+ * @throws InputValidationError listing every invalid field in every file
+ */
+export function loadResumes(path: string): Resume[] {
+  return loadAll(ResumeSchema, path);
+}
+
+/**
+ * loadJobs - Load and validate job descriptions from a file or directory
+ *
+ * @throws InputValidationError listing every invalid field in every file
+ */
+export function loadJobs(path: string): JobDescription[] {
+  return loadAll(JobDescriptionSchema, path);
+}
+
+/**
+ * loadJob - Load exactly one job description
+ *
+ * @throws InputValidationError if the path is invalid or holds more than one job
+ */
+export function loadJob(path: string): JobDescription {
+  const jobs = loadJobs(path);
+  if (jobs.length !== 1) {
+    throw new InputValidationError([{ file: path, path: '', message: `Expected exactly one job description, found ${jobs.length}` }]);
+  }
+  return jobs[0];
+}
+
+/**
+ * validateInputFile - Check a single file without throwing
+ *
+ * @param kind - Which schema to apply; inferred from the presence of jobId when omitted
+ */
+export function validateInputFile(
+  file: string,
+  kind?: 'resume' | 'job'
+): { kind: 'resume' | 'job'; issues: InputIssue[] } {
+  let value: unknown;
+  try {
+    value = readInputFile(file);
+  } catch (e) {
+    if (e instanceof InputValidationError) return { kind: kind ?? 'resume', issues: e.issues };
+    throw e;
+  }
+
+  const first = Array.isArray(value) ? value[0] : value;
+  const resolvedKind = kind ?? (typeof first === 'object' && first !== null && 'jobId' in first ? 'job' : 'resume');
+  const schema: z.ZodType<unknown> = resolvedKind === 'job' ? JobDescriptionSchema : ResumeSchema;
+  return { kind: resolvedKind, issues: validateEntries(schema, value, file).issues };
+}
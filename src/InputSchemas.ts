@@ -0,0 +1,118 @@
+/**
+ * InputSchemas.ts - Zod Schemas for Screening Inputs
+ *
+ * SGRSchema.ts constrains what the model produces; these schemas constrain
+ * what we feed it. Every Resume and JobDescription loaded from disk is
+ * parsed here first, so a malformed input file fails with a precise path
+ * instead of silently producing a broken prompt.
+ *
+ * The Resume and JobDescription types in examples/ are inferred from these
+ * schemas, so the two can never drift apart.
+ */
+
+import { z } from 'zod';
+import { enums } from './config.js';
+
+// ============================================================================
+// Resume
+// ============================================================================
+
+/**
+ * WorkExperienceSchema - One position on a resume
+ */
+export const WorkExperienceSchema = z.object({
+  company: z.string().min(1),
+  title: z.string().min(1),
+  duration: z.string().min(1),
+  achievements: z.array(z.string().min(1))
+});
+
+/**
+ * EducationSchema - One degree or certificate on a resume
+ */
+export const EducationSchema = z.object({
+  institution: z.string().min(1),
+  degree: z.string().min(1),
+  // Graduation year (absent when the resume does not give one)
+  year: z.number().int().min(1900).max(2100).optional(),
+  gpa: z.number().min(0).max(5).optional()
+});
+
+/**
+ * ProjectSchema - A personal or professional project
+ */
+export const ProjectSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  url: z.string().min(1).optional()
+});
+
+/**
+ * ResumeSchema - A candidate's resume as accepted by runResumeScreening
+ */
+export const ResumeSchema = z.object({
+  candidateId: z.string().min(1),
+  name: z.string().min(1),
+  email: z.string().email(),
+  phone: z.string().min(1).optional(),
+  // As the candidate states them, e.g. "she/her"
+  pronouns: z.string().min(1).optional(),
+  summary: z.string().min(1),
+  experience: z.array(WorkExperienceSchema),
+  education: z.array(EducationSchema),
+  skills: z.array(z.string().min(1)),
+  certifications: z.array(z.string().min(1)).optional(),
+  projects: z.array(ProjectSchema).optional()
+});
+
+// ============================================================================
+// Job Description
+// ============================================================================
+
+/**
+ * JobRequirementsSchema - Required and preferred qualifications
+ */
+export const JobRequirementsSchema = z.object({
+  required: z.array(z.string().min(1)).min(1),
+  preferred: z.array(z.string().min(1))
+});
+
+/**
+ * ScreeningCriterionSchema - A job-specific check the screening must perform
+ *
+ * Each declared criterion gets exactly one screening step (see
+ * ScreeningCriteria.ts), e.g. a portfolio review or security clearance.
+ */
+export const ScreeningCriterionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'must be snake_case, e.g. portfolio_review'),
+  label: z.string().min(1),
+  description: z.string().min(1),
+  category: z.enum(enums.evaluationCategories),
+  weight: z.number().positive()
+});
+
+/**
+ * JobDescriptionSchema - A job posting as accepted by runResumeScreening
+ */
+export const JobDescriptionSchema = z.object({
+  jobId: z.string().min(1),
+  title: z.string().min(1),
+  department: z.string().min(1),
+  location: z.string().min(1),
+  employmentType: z.string().min(1),
+  description: z.string().min(1),
+  requirements: JobRequirementsSchema,
+  salaryRange: z.object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+    currency: z.string().length(3)
+  }).refine(range => range.max >= range.min, {
+    message: 'max must be greater than or equal to min',
+    path: ['max']
+  }),
+  // Replaces the generic screening steps when present
+  screeningCriteria: z.array(ScreeningCriterionSchema).min(1).optional()
+    .refine(criteria => !criteria || new Set(criteria.map(c => c.id)).size === criteria.length, {
+      message: 'criterion ids must be unique'
+    })
+});
@@ -0,0 +1,83 @@
+/**
+ * Interview Plan Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { generateInterviewPlan, checkInterviewPlan, requiredTargets } from './InterviewPlan.js';
+import { MockProvider, buildMockScreening, buildMockInterviewPlan } from './MockProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const provider = new MockProvider();
+
+describe('generateInterviewPlan', () => {
+  it('should cover every gap of every sample screening', async () => {
+    for (const resume of Object.values(sampleResumes)) {
+      const screening = buildMockScreening(resume, defaultJob);
+      const result = await generateInterviewPlan(screening, { job: defaultJob, provider });
+
+      expect(result.success).toBe(true);
+      const targets = result.data!.stages.flatMap(stage => stage.questions.map(q => q.target));
+      for (const target of requiredTargets(screening)) {
+        expect(targets).toContain(target.text);
+      }
+    }
+  });
+
+  it('should tie step gaps to their screening step', async () => {
+    const screening = buildMockScreening(sampleResumes.potentialFit, defaultJob);
+    const result = await generateInterviewPlan(screening, { provider });
+
+    const stepQuestions = result.data!.stages.flatMap(stage => stage.questions).filter(q => q.target_type === 'step_gap');
+    expect(stepQuestions.length).toBeGreaterThan(0);
+    for (const question of stepQuestions) {
+      expect(screening.screening_steps[question.step_number! - 1].gap_identified).toBe(question.target);
+    }
+  });
+
+  it('should re-ask when a gap is left uncovered', async () => {
+    const screening = buildMockScreening(sampleResumes.potentialFit, defaultJob);
+    let calls = 0;
+    const forgetful = new MockProvider({
+      handlers: {
+        InterviewPlan: () => {
+          const plan = buildMockInterviewPlan(screening);
+          if (++calls > 1) return plan;
+          return { ...plan, stages: plan.stages.map(stage => ({ ...stage, questions: stage.questions.slice(0, 1) })) };
+        }
+      }
+    });
+
+    const result = await generateInterviewPlan(screening, { provider: forgetful, sleep: async () => {} });
+    expect(result.success).toBe(true);
+    expect(result.metadata?.attempts[0].outcome).toBe('semantic_error');
+  });
+});
+
+describe('checkInterviewPlan', () => {
+  const screening = buildMockScreening(sampleResumes.notQualified, defaultJob);
+  const plan = buildMockInterviewPlan(screening);
+
+  it('should accept the mock plan', () => {
+    expect(checkInterviewPlan(plan, screening)).toEqual([]);
+  });
+
+  it('should flag out-of-order stages and invented targets', () => {
+    const stages = [
+      { ...plan.stages[0], stage_number: 1, interview_type: 'final_round' as const },
+      {
+        ...plan.stages[0],
+        stage_number: 2,
+        interview_type: 'phone_screen' as const,
+        questions: [{ ...plan.stages[0].questions[0], target_type: 'concern' as const, target: 'Invented concern' }]
+      }
+    ];
+    const rules = checkInterviewPlan({ ...plan, stages }, screening).map(issue => issue.rule);
+
+    expect(rules).toContain('stage_order');
+    expect(rules).toContain('unknown_target');
+    expect(rules).toContain('uncovered_target');
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * InterviewPlan.ts - Structured Interview Loop Generation
+ *
+ * Turns a ResumeScreening into an ordered interview loop built from
+ * enums.interviewTypes. Every question names the screening finding it
+ * probes (a missing required skill, a concern or a screening step gap) and
+ * carries its own scoring rubric, so interviewers know what they are
+ * testing and how to grade it.
+ *
+ * checkInterviewPlan runs as the semantic check of the structured call:
+ * every gap must be covered, every target must exist in the screening, and
+ * stages must follow INTERVIEW_TYPE_ORDER.
+ */
+
+import { z } from 'zod';
+import { runStructuredCompletion, AgentResult, AgentCallOptions } from './LLMAgent.js';
+import { SemanticIssue } from './SemanticValidation.js';
+import { ResumeScreening } from './SGRSchema.js';
+import { enums, interviewConfig, InterviewType } from './config.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * InterviewTypeEnum - Kinds of interview stages
+ */
+export const InterviewTypeEnum = z.enum(enums.interviewTypes);
+
+/**
+ * QuestionTargetEnum - Which screening finding a question probes
+ */
+export const QuestionTargetEnum = z.enum([
+  'missing_required_skill',
+  'concern',
+  'step_gap',
+  'focus_area',
+  'strength'
+]);
+export type QuestionTarget = z.infer<typeof QuestionTargetEnum>;
+
+/**
+ * QuestionRubricSchema - What a strong, acceptable and weak answer looks like
+ */
+export const QuestionRubricSchema = z.object({
+  strong: z.string()
+    .min(1)
+    .describe('Observable signs of a strong answer'),
+
+  acceptable: z.string()
+    .min(1)
+    .describe('Observable signs of an acceptable answer'),
+
+  weak: z.string()
+    .min(1)
+    .describe('Observable signs of a weak answer')
+});
+
+/**
+ * InterviewQuestionSchema - One targeted question
+ */
+export const InterviewQuestionSchema = z.object({
+  question: z.string()
+    .min(10)
+    .describe('The question to ask'),
+
+  target_type: QuestionTargetEnum
+    .describe('Which kind of screening finding this question probes'),
+
+  target: z.string()
+    .min(1)
+    .describe('The finding, copied verbatim from the screening'),
+
+  step_number: z.number()
+    .int()
+    .nullable()
+    .describe('Screening step the gap came from (null unless target_type is step_gap)'),
+
+  rubric: QuestionRubricSchema
+    .describe('How to score the answer')
+});
+
+export type InterviewQuestion = z.infer<typeof InterviewQuestionSchema>;
+
+/**
+ * InterviewStageSchema - One stage of the interview loop
+ */
+export const InterviewStageSchema = z.object({
+  stage_number: z.number()
+    .int()
+    .min(1)
+    .describe('Position of the stage in the loop, starting at 1'),
+
+  interview_type: InterviewTypeEnum
+    .describe('Kind of interview'),
+
+  duration_minutes: z.number()
+    .int()
+    .min(15)
+    .max(240)
+    .describe('Planned length of the stage'),
+
+  interviewer_role: z.string()
+    .min(1)
+    .describe('Who runs this stage, e.g. "Senior Engineer"'),
+
+  objective: z.string()
+    .min(1)
+    .describe('What this stage must establish'),
+
+  questions: z.array(InterviewQuestionSchema)
+    .min(1)
+    .max(interviewConfig.maxQuestionsPerStage)
+    .describe('Targeted questions for this stage')
+});
+
+export type InterviewStage = z.infer<typeof InterviewStageSchema>;
+
+/**
+ * InterviewPlanSchema - The full interview loop for a candidate
+ */
+export const InterviewPlanSchema = z.object({
+  candidate_id: z.string()
+    .describe('Candidate the plan is for'),
+
+  job_id: z.string()
+    .describe('Job the plan is for'),
+
+  stages: z.array(InterviewStageSchema)
+    .min(1)
+    .describe('Interview stages in the order they happen')
+});
+
+export type InterviewPlan = z.infer<typeof InterviewPlanSchema>;
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/**
+ * Canonical order of interview types within a loop
+ */
+export const INTERVIEW_TYPE_ORDER: readonly InterviewType[] = [
+  'phone_screen',
+  'technical',
+  'behavioral',
+  'panel',
+  'hiring_manager',
+  'final_round'
+];
+
+/**
+ * InterviewTarget - A screening finding the plan can probe
+ */
+export interface InterviewTarget {
+  type: QuestionTarget;
+  text: string;
+  stepNumber: number | null;
+}
+
+/**
+ * Findings that must each be covered by at least one question
+ */
+export function requiredTargets(screening: ResumeScreening): InterviewTarget[] {
+  return [
+    ...screening.skills_analysis.missing_required_skills.map(text => ({ type: 'missing_required_skill' as const, text, stepNumber: null })),
+    ...screening.concerns.map(text => ({ type: 'concern' as const, text, stepNumber: null })),
+    ...screening.screening_steps
+      .filter(step => step.gap_identified?.trim())
+      .map(step => ({ type: 'step_gap' as const, text: step.gap_identified!, stepNumber: step.step_number }))
+  ];
+}
+
+function optionalTargets(screening: ResumeScreening): InterviewTarget[] {
+  return [
+    ...screening.interview_focus_areas.map(text => ({ type: 'focus_area' as const, text, stepNumber: null })),
+    ...screening.strengths.map(text => ({ type: 'strength' as const, text, stepNumber: null }))
+  ];
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// ============================================================================
+// Plan Check
+// ============================================================================
+
+export type InterviewPlanRule =
+  | 'identity_mismatch'
+  | 'stage_numbering'
+  | 'stage_order'
+  | 'unknown_target'
+  | 'step_number_mismatch'
+  | 'uncovered_target';
+
+/**
+ * checkInterviewPlan - Coverage, target and ordering checks for a plan
+ *
+ * @returns Every violation found (empty when the plan is usable)
+ */
+export function checkInterviewPlan(plan: InterviewPlan, screening: ResumeScreening): SemanticIssue<InterviewPlanRule>[] {
+  const issues: SemanticIssue<InterviewPlanRule>[] = [];
+  const required = requiredTargets(screening);
+  const known = [...required, ...optionalTargets(screening)];
+
+  if (plan.candidate_id !== screening.candidate_id || plan.job_id !== screening.job_id) {
+    issues.push({
+      rule: 'identity_mismatch',
+      path: ['candidate_id'],
+      message: `plan must be for ${screening.candidate_id} on ${screening.job_id}`
+    });
+  }
+
+  plan.stages.forEach((stage, s) => {
+    if (stage.stage_number !== s + 1) {
+      issues.push({ rule: 'stage_numbering', path: ['stages', s, 'stage_number'], message: `stage_number should be ${s + 1}, got ${stage.stage_number}` });
+    }
+    const previous = plan.stages[s - 1];
+    if (previous && INTERVIEW_TYPE_ORDER.indexOf(stage.interview_type) < INTERVIEW_TYPE_ORDER.indexOf(previous.interview_type)) {
+      issues.push({
+        rule: 'stage_order',
+        path: ['stages', s, 'interview_type'],
+        message: `'${stage.interview_type}' cannot come after '${previous.interview_type}' (order: ${INTERVIEW_TYPE_ORDER.join(', ')})`
+      });
+    }
+
+    stage.questions.forEach((question, q) => {
+      const path = ['stages', s, 'questions', q];
+      const match = known.find(t => t.type === question.target_type && sameText(t.text, question.target));
+      if (!match) {
+        issues.push({ rule: 'unknown_target', path: [...path, 'target'], message: `"${question.target}" is not a ${question.target_type} in the screening` });
+      } else if (match.stepNumber !== question.step_number) {
+        issues.push({ rule: 'step_number_mismatch', path: [...path, 'step_number'], message: `step_number should be ${match.stepNumber}` });
+      }
+    });
+  });
+
+  const asked = plan.stages.flatMap(stage => stage.questions);
+  for (const target of required) {
+    if (!asked.some(q => q.target_type === target.type && sameText(q.target, target.text))) {
+      issues.push({ rule: 'uncovered_target', path: ['stages'], message: `no question covers ${target.type} "${target.text}"` });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Agent Function
+// ============================================================================
+
+/**
+ * InterviewPlanOptions - Per-call overrides for generateInterviewPlan
+ */
+export interface InterviewPlanOptions extends AgentCallOptions {
+  // Job the screening was for (gives the model the role context)
+  job?: JobDescription;
+}
+
+/**
+ * generateInterviewPlan - Build an interview loop from a screening
+ *
+ * @param screening - Completed screening for the candidate
+ * @param options - Job plus provider/model/retry overrides
+ * @returns A plan that passed checkInterviewPlan, or error details
+ */
+export async function generateInterviewPlan(
+  screening: ResumeScreening,
+  options: InterviewPlanOptions = {}
+): Promise<AgentResult<InterviewPlan>> {
+  const { job, ...callOptions } = options;
+  const list = (targets: InterviewTarget[]) => targets.length > 0
+    ? targets.map(t => `- [${t.type}${t.stepNumber !== null ? ` step ${t.stepNumber}` : ''}] ${t.text}`).join('\n')
+    : '(none)';
+
+  const prompt = `
+Plan the interview loop for candidate ${screening.candidate_id} (job ${screening.job_id}${job ? `, ${job.title}` : ''}).
+
+Screening result: ${screening.overall_fit}, recommended action ${screening.recommended_action}
+
+## Findings every plan must cover
+${list(requiredTargets(screening))}
+
+## Optional findings (strengths and focus areas)
+${list(optionalTargets(screening))}
+
+Suggested stage lengths (minutes): ${Object.entries(interviewConfig.stageMinutes).map(([type, minutes]) => `${type} ${minutes}`).join(', ')}
+`;
+
+  return runStructuredCompletion({
+    schema: InterviewPlanSchema,
+    schemaName: 'InterviewPlan',
+    messages: [
+      {
+        role: 'system',
+        content: `You are an experienced hiring manager designing structured interview loops.
+
+Rules:
+1. Order stages as: ${INTERVIEW_TYPE_ORDER.join(', ')} (skip stages you do not need)
+2. Every required finding gets at least one question; copy the finding verbatim into "target"
+3. Set step_number only for step_gap questions, using the step the gap came from
+4. Each rubric describes observable behaviour for strong, acceptable and weak answers
+5. At most ${interviewConfig.maxQuestionsPerStage} questions per stage`
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ],
+    context: { screening, job },
+    semanticCheck: plan => checkInterviewPlan(plan, screening)
+  }, callOptions);
+}
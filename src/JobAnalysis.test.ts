@@ -0,0 +1,109 @@
+/**
+ * Job Analysis Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { analyzeJob, JobAnalysisCache, checkScreeningAgainstJob, checkJobAnalysis } from './JobAnalysis.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening, buildMockJobAnalysis } from './MockProvider.js';
+import { defaultJob, juniorFrontendDeveloper } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const provider = new MockProvider();
+
+describe('analyzeJob', () => {
+  it('should extract typed requirements', async () => {
+    const result = await analyzeJob(defaultJob, { provider, cache: false });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.min_years_experience).toBe(5);
+    expect(result.data?.education).toMatchObject({ min_degree: 'bachelor', equivalent_experience_accepted: true });
+    expect(result.data?.skills).toContainEqual(expect.objectContaining({ name: 'TypeScript', alternatives: ['Python'], priority: 'required' }));
+  });
+
+  it('should cache per jobId and re-analyze when the job changes', async () => {
+    const cache = new JobAnalysisCache();
+    const complete = vi.fn(provider.complete.bind(provider));
+    const counting = { name: 'counting', complete };
+
+    const [first, second] = await Promise.all([
+      analyzeJob(defaultJob, { provider: counting, cache }),
+      analyzeJob(defaultJob, { provider: counting, cache })
+    ]);
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBe(false);
+    expect(second.cached).toBe(true);
+    expect(second.data).toEqual(first.data);
+
+    const edited = { ...defaultJob, requirements: { ...defaultJob.requirements, required: ['3+ years of Go experience'] } };
+    const reanalyzed = await analyzeJob(edited, { provider: counting, cache });
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(reanalyzed.data?.min_years_experience).toBe(3);
+    expect(cache.size).toBe(1);
+  });
+
+  it('should not cache failed analyses', async () => {
+    const cache = new JobAnalysisCache();
+    const failing = new MockProvider({ handlers: { JobAnalysis: () => 'not json' } });
+    const failed = await analyzeJob(juniorFrontendDeveloper, { provider: failing, cache, retry: { maxRetries: 0, fallbackModel: null } });
+
+    expect(failed.success).toBe(false);
+    expect(cache.get(juniorFrontendDeveloper)).toBeUndefined();
+  });
+
+  it('should reject analyses that invent requirements', () => {
+    const analysis = buildMockJobAnalysis(defaultJob);
+    const rules = checkJobAnalysis({
+      ...analysis,
+      min_years_experience: 7,
+      skills: [{ name: 'Rust', alternatives: [], priority: 'required', source_text: 'Rust expertise' }]
+    }, defaultJob).map(i => i.rule);
+
+    expect(rules).toEqual(['unknown_source_text', 'unsupported_years']);
+  });
+});
+
+describe('checkScreeningAgainstJob', () => {
+  const analysis = buildMockJobAnalysis(defaultJob);
+
+  it('should accept every mock screening', () => {
+    for (const resume of Object.values(sampleResumes)) {
+      expect(checkScreeningAgainstJob(buildMockScreening(resume, defaultJob), analysis)).toEqual([]);
+    }
+  });
+
+  it('should catch contradictions with the typed requirements', () => {
+    const screening = buildMockScreening(sampleResumes.strongMatch, defaultJob);
+    const contradictory = {
+      ...screening,
+      experience_analysis: { ...screening.experience_analysis, total_years: 2, relevant_years: 2 },
+      skills_analysis: { ...screening.skills_analysis, missing_required_skills: ['Proficiency in TypeScript or Python'] }
+    };
+    const strict = { ...analysis, certifications: [{ name: 'CISSP', priority: 'required' as const }] };
+
+    expect(checkScreeningAgainstJob(contradictory, strict).map(i => i.rule)).toEqual([
+      'experience_contradiction',
+      'skill_contradiction',
+      'required_certification_missing'
+    ]);
+  });
+
+  it('should re-ask a screening that contradicts the job', async () => {
+    let calls = 0;
+    const sloppy = new MockProvider({
+      handlers: {
+        ResumeScreening: () => {
+          const screening = buildMockScreening(sampleResumes.strongMatch, defaultJob);
+          if (++calls > 1) return screening;
+          return { ...screening, skills_analysis: { ...screening.skills_analysis, missing_required_skills: ['TypeScript'] } };
+        }
+      }
+    });
+
+    const result = await runResumeScreening(sampleResumes.strongMatch, defaultJob, { provider: sloppy, jobAnalysis: analysis, sleep: async () => {} });
+    expect(result.success).toBe(true);
+    expect(result.metadata?.attempts[0].outcome).toBe('semantic_error');
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * JobAnalysis.ts - Typed Requirements Extracted from a JobDescription
+ *
+ * JobRequirements are free text ("5+ years of software development
+ * experience"), so every screening call has to reinterpret them. This
+ * agent converts a JobDescription once into typed requirements - minimum
+ * years, skills with acceptable alternatives, a DegreeTypeEnum level and
+ * certifications - and caches the result per jobId.
+ *
+ * The typed requirements then let checkScreeningAgainstJob catch
+ * screenings that contradict the job mechanically (a step marked met with
+ * too few years, a matched skill listed as missing, ...).
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { runStructuredCompletion, AgentResult, AgentCallOptions } from './LLMAgent.js';
+import { SemanticIssue } from './SemanticValidation.js';
+import { DegreeTypeEnum, DegreeType, ResumeScreening } from './SGRSchema.js';
+import { defaultSkillTaxonomy } from './SkillTaxonomy.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * RequirementPriorityEnum - Whether a requirement is required or preferred
+ */
+export const RequirementPriorityEnum = z.enum(['required', 'preferred']);
+export type RequirementPriority = z.infer<typeof RequirementPriorityEnum>;
+
+/**
+ * SkillRequirementSchema - A skill, with other skills that satisfy it
+ */
+export const SkillRequirementSchema = z.object({
+  name: z.string()
+    .min(1)
+    .describe('Primary skill, e.g. "TypeScript"'),
+
+  alternatives: z.array(z.string().min(1))
+    .describe('Other skills that satisfy the requirement, e.g. ["Python"] for "TypeScript or Python"'),
+
+  priority: RequirementPriorityEnum
+    .describe('Whether the skill is required or preferred'),
+
+  source_text: z.string()
+    .describe('The requirement this skill came from, verbatim')
+});
+
+export type SkillRequirement = z.infer<typeof SkillRequirementSchema>;
+
+/**
+ * JobAnalysisSchema - Typed view of a job's requirements
+ */
+export const JobAnalysisSchema = z.object({
+  job_id: z.string()
+    .describe('Job that was analyzed'),
+
+  min_years_experience: z.number()
+    .min(0)
+    .nullable()
+    .describe('Minimum years of experience required (null if not stated)'),
+
+  skills: z.array(SkillRequirementSchema)
+    .describe('Every skill named in the requirements'),
+
+  education: z.object({
+    min_degree: DegreeTypeEnum
+      .describe('Lowest degree that satisfies the requirement'),
+
+    fields: z.array(z.string())
+      .describe('Accepted fields of study (empty if any field)'),
+
+    equivalent_experience_accepted: z.boolean()
+      .describe('Whether experience can substitute for the degree'),
+
+    priority: RequirementPriorityEnum
+      .describe('Whether the degree is required or preferred')
+  }).nullable()
+    .describe('Degree requirement (null if none)'),
+
+  certifications: z.array(z.object({
+    name: z.string().min(1).describe('Certification name'),
+    priority: RequirementPriorityEnum.describe('Whether it is required or preferred')
+  })).describe('Certifications named in the requirements'),
+
+  unclassified: z.array(z.string())
+    .describe('Requirements that are not a skill, degree, years or certification, verbatim')
+});
+
+export type JobAnalysis = z.infer<typeof JobAnalysisSchema>;
+
+// ============================================================================
+// Analysis Check
+// ============================================================================
+
+export type JobAnalysisRule = 'wrong_job' | 'unknown_source_text' | 'unsupported_years';
+
+/**
+ * checkJobAnalysis - The analysis must stay faithful to the job text
+ */
+export function checkJobAnalysis(analysis: JobAnalysis, job: JobDescription): SemanticIssue<JobAnalysisRule>[] {
+  const issues: SemanticIssue<JobAnalysisRule>[] = [];
+  const texts = [...job.requirements.required, ...job.requirements.preferred];
+
+  if (analysis.job_id !== job.jobId) {
+    issues.push({ rule: 'wrong_job', path: ['job_id'], message: `job_id must be ${job.jobId}` });
+  }
+
+  analysis.skills.forEach((skill, i) => {
+    if (!texts.includes(skill.source_text)) {
+      issues.push({
+        rule: 'unknown_source_text',
+        path: ['skills', i, 'source_text'],
+        message: `"${skill.source_text}" is not one of the job's requirements`
+      });
+    }
+  });
+
+  const years = analysis.min_years_experience;
+  if (years !== null && !job.requirements.required.some(r => new RegExp(`\\b${years}\\b`).test(r))) {
+    issues.push({
+      rule: 'unsupported_years',
+      path: ['min_years_experience'],
+      message: `no required qualification mentions ${years} years`
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Screening Check
+// ============================================================================
+
+/**
+ * Degree levels in ascending order (bootcamps and certifications rank with associate)
+ */
+export const DEGREE_LEVEL: Record<DegreeType, number> = {
+  high_school: 0,
+  certification: 1,
+  bootcamp: 1,
+  associate: 1,
+  bachelor: 2,
+  master: 3,
+  doctorate: 4
+};
+
+export type JobCheckRule =
+  | 'experience_contradiction'
+  | 'education_contradiction'
+  | 'skill_contradiction'
+  | 'required_certification_missing';
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9+#]+/g, ' ').trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${normalize(text)} `.includes(` ${normalize(phrase)} `);
+}
+
+/**
+ * checkScreeningAgainstJob - Mechanical checks of a screening against typed requirements
+ *
+ * @returns Contradictions between the screening and the job (empty when consistent)
+ */
+export function checkScreeningAgainstJob(
+  screening: ResumeScreening,
+  analysis: JobAnalysis
+): SemanticIssue<JobCheckRule>[] {
+  const issues: SemanticIssue<JobCheckRule>[] = [];
+  const { experience_analysis: experience, education_analysis: education, skills_analysis: skills } = screening;
+
+  // A met experience step needs at least the minimum years
+  const minYears = analysis.min_years_experience;
+  if (minYears !== null && experience.total_years < minYears) {
+    screening.screening_steps.forEach((step, i) => {
+      if (step.evaluation_category === 'experience_level' && step.requirement_met) {
+        issues.push({
+          rule: 'experience_contradiction',
+          path: ['screening_steps', i, 'requirement_met'],
+          message: `${experience.total_years} total years cannot meet the ${minYears}-year minimum`
+        });
+      }
+    });
+  }
+
+  // Meeting the degree requirement needs the degree unless experience substitutes
+  const degree = analysis.education;
+  if (
+    degree?.priority === 'required' &&
+    !degree.equivalent_experience_accepted &&
+    education.meets_education_requirement &&
+    DEGREE_LEVEL[education.highest_degree] < DEGREE_LEVEL[degree.min_degree]
+  ) {
+    issues.push({
+      rule: 'education_contradiction',
+      path: ['education_analysis', 'meets_education_requirement'],
+      message: `highest_degree '${education.highest_degree}' is below the required '${degree.min_degree}'`
+    });
+  }
+
+  // A required skill the candidate has must not be listed as missing
+  const candidateSkills = [...skills.technical_skills.map(s => s.skill_name), ...skills.required_skills_matched];
+  for (const skill of analysis.skills.filter(s => s.priority === 'required')) {
+    const options = [skill.name, ...skill.alternatives];
+    const held = options.find(option => candidateSkills.some(c => defaultSkillTaxonomy.satisfies(c, option)));
+    if (!held) continue;
+
+    skills.missing_required_skills.forEach((missing, i) => {
+      if (missing === skill.source_text || options.some(option => containsPhrase(missing, option))) {
+        issues.push({
+          rule: 'skill_contradiction',
+          path: ['skills_analysis', 'missing_required_skills', i],
+          message: `"${missing}" is listed as missing but the candidate has ${held}`
+        });
+      }
+    });
+  }
+
+  // Advancing without a required certification needs a second look
+  if (screening.recommended_action === 'advance_to_interview') {
+    for (const cert of analysis.certifications.filter(c => c.priority === 'required')) {
+      if (!skills.certifications.some(c => containsPhrase(c, cert.name))) {
+        issues.push({
+          rule: 'required_certification_missing',
+          path: ['recommended_action'],
+          message: `cannot advance without the required certification "${cert.name}"`
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+/**
+ * JobAnalysisResult - Analysis plus whether it came from the cache
+ */
+export interface JobAnalysisResult extends AgentResult<JobAnalysis> {
+  cached: boolean;
+}
+
+interface CacheEntry {
+  fingerprint: string;
+  result: Promise<AgentResult<JobAnalysis>>;
+}
+
+/**
+ * Hash of the job content, so an edited job with the same jobId is re-analyzed
+ */
+function fingerprintOf(job: JobDescription): string {
+  return createHash('sha256').update(JSON.stringify(job)).digest('hex');
+}
+
+/**
+ * JobAnalysisCache - Analyses keyed by jobId
+ *
+ * Stores in-flight promises, so concurrent screenings of the same job
+ * share one analysis call. Failed analyses are not kept.
+ */
+export class JobAnalysisCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Cached analysis for this exact job content (undefined if absent or stale)
+   */
+  get(job: JobDescription): Promise<AgentResult<JobAnalysis>> | undefined {
+    const entry = this.entries.get(job.jobId);
+    return entry && entry.fingerprint === fingerprintOf(job) ? entry.result : undefined;
+  }
+
+  set(job: JobDescription, result: Promise<AgentResult<JobAnalysis>>): void {
+    this.entries.set(job.jobId, { fingerprint: fingerprintOf(job), result });
+    result.then(
+      settled => { if (!settled.success) this.delete(job.jobId, result); },
+      () => this.delete(job.jobId, result)
+    );
+  }
+
+  delete(jobId: string, only?: Promise<AgentResult<JobAnalysis>>): void {
+    if (only === undefined || this.entries.get(jobId)?.result === only) this.entries.delete(jobId);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache shared by analyzeJob calls that do not pass their own
+ */
+export const defaultJobAnalysisCache = new JobAnalysisCache();
+
+// ============================================================================
+// Agent Function
+// ============================================================================
+
+/**
+ * JobAnalysisOptions - Per-call overrides for analyzeJob
+ */
+export interface JobAnalysisOptions extends AgentCallOptions {
+  // Cache to use (false to always call the model)
+  cache?: JobAnalysisCache | false;
+}
+
+/**
+ * analyzeJob - Convert a JobDescription into typed requirements (cached per jobId)
+ *
+ * @param job - Job to analyze
+ * @param options - Cache plus provider/model/retry overrides
+ * @returns Typed requirements, or error details
+ */
+export async function analyzeJob(job: JobDescription, options: JobAnalysisOptions = {}): Promise<JobAnalysisResult> {
+  const { cache = defaultJobAnalysisCache, ...callOptions } = options;
+
+  const hit = cache ? cache.get(job) : undefined;
+  if (hit) {
+    console.log(`[JobAnalysis] Cache hit for ${job.jobId}`);
+    return { ...(await hit), cached: true };
+  }
+
+  const list = (items: string[]) => items.map(r => `- ${r}`).join('\n');
+  const result = runStructuredCompletion({
+    schema: JobAnalysisSchema,
+    schemaName: 'JobAnalysis',
+    messages: [
+      {
+        role: 'system',
+        content: `You are a technical recruiter turning job requirements into structured, machine-checkable criteria.
+
+Rules:
+1. min_years_experience is the lowest number of years a required qualification accepts ("0-2 years" means 0)
+2. List each skill once; put "X or Y" as name X with alternatives [Y]
+3. Copy source_text verbatim from the requirement the skill came from
+4. Use the lowest degree level that satisfies the education requirement
+5. Anything that is not a skill, degree, years or certification goes to unclassified`
+      },
+      {
+        role: 'user',
+        content: `Analyze the requirements of job ${job.jobId} (${job.title}).\n\nRequired:\n${list(job.requirements.required)}\n\nPreferred:\n${list(job.requirements.preferred)}`
+      }
+    ],
+    context: { job },
+    semanticCheck: analysis => checkJobAnalysis(analysis, job)
+  }, callOptions);
+
+  if (cache) cache.set(job, result);
+  return { ...(await result), cached: false };
+}
+
+/**
+ * jobAnalysisFor - analyzeJob for a screening run (undefined if it fails)
+ *
+ * Only the model settings are passed on: onDelta belongs to the screening
+ * call. A failed analysis is logged, and screenings then simply skip
+ * checkScreeningAgainstJob.
+ *
+ * @param job - Job the screenings are for
+ * @param options - Screening options; provider/model/retry/repair are reused
+ * @returns Typed requirements to pass as ScreeningOptions.jobAnalysis
+ */
+export async function jobAnalysisFor(job: JobDescription, options: AgentCallOptions = {}): Promise<JobAnalysis | undefined> {
+  const { provider, model, retry, sleep, repair } = options;
+  const result = await analyzeJob(job, { provider, model, retry, sleep, repair });
+  if (result.success && result.data) return result.data;
+
+  console.log(`[JobAnalysis] Screening against ${job.jobId} without typed requirements: ${result.error?.message ?? 'analysis failed'}`);
+  return undefined;
+}
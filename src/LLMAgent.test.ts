@@ -0,0 +1,159 @@
+/**
+ * Retry and Fallback Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { computeBackoffDelay, resolveRetryPolicy, isTransientError } from './RetryPolicy.js';
+import { CompletionRequest } from './LLMProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { strongMatchCandidate } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+class RateLimitError extends Error {
+  status = 429;
+}
+
+const validScreening = () => buildMockScreening(strongMatchCandidate, defaultJob);
+
+describe('RetryPolicy', () => {
+  it('should grow delays exponentially up to the cap', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, backoffMultiplier: 2, maxDelayMs: 350 });
+    expect([0, 1, 2, 3].map(i => computeBackoffDelay(i, policy))).toEqual([100, 200, 350, 350]);
+  });
+
+  it('should classify transient errors', () => {
+    expect(isTransientError(new RateLimitError('slow down'))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('bad key'), { status: 401 }))).toBe(false);
+    expect(isTransientError(new Error('Request timeout'))).toBe(true);
+  });
+});
+
+describe('runResumeScreening retries', () => {
+  it('should back off and retry transient API errors', async () => {
+    let calls = 0;
+    const provider = new MockProvider({
+      handlers: {
+        ResumeScreening: () => {
+          if (++calls < 3) throw new RateLimitError('rate limited');
+          return validScreening();
+        }
+      }
+    });
+    const sleep = vi.fn(async () => {});
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, {
+      provider,
+      sleep,
+      retry: { baseDelayMs: 10, backoffMultiplier: 3 }
+    });
+
+    expect(result.success).toBe(true);
+    expect(sleep.mock.calls).toEqual([[10], [30]]);
+    expect(result.metadata?.attempts.map(a => a.outcome)).toEqual(['api_error', 'api_error', 'success']);
+    expect(result.metadata?.fallbackUsed).toBe(false);
+  });
+
+  it('should re-ask with a corrective note after validation failures', async () => {
+    const prompts: string[] = [];
+    const provider = new MockProvider({
+      handlers: {
+        ResumeScreening: (request: CompletionRequest) => {
+          prompts.push(request.messages[request.messages.length - 1].content);
+          return prompts.length === 1 ? { ...validScreening(), fit_score: 150 } : validScreening();
+        }
+      }
+    });
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, { provider });
+
+    expect(result.success).toBe(true);
+    expect(prompts[0]).not.toContain('did not match the required schema');
+    expect(prompts[1]).toContain('did not match the required schema');
+    expect(result.metadata?.attempts.map(a => a.outcome)).toEqual(['validation_error', 'success']);
+  });
+
+  it('should switch to the fallback model once the primary is exhausted', async () => {
+    const provider = new MockProvider({
+      handlers: {
+        ResumeScreening: (request: CompletionRequest) => {
+          if (request.model === 'primary-model') throw Object.assign(new Error('model not found'), { status: 404 });
+          return validScreening();
+        }
+      }
+    });
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, {
+      provider,
+      model: 'primary-model',
+      retry: { fallbackModel: 'backup-model' }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.fallbackUsed).toBe(true);
+    expect(result.metadata?.attempts.map(a => a.model)).toEqual(['primary-model', 'backup-model']);
+  });
+
+  it('should report the last error after every attempt fails', async () => {
+    const provider = new MockProvider({ handlers: { ResumeScreening: () => '{oops' } });
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, {
+      provider,
+      model: 'primary-model',
+      retry: { maxRetries: 1, fallbackModel: 'backup-model' }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('parse_error');
+    expect(result.metadata?.attempts).toHaveLength(4);
+    expect(result.metadata?.fallbackUsed).toBe(true);
+  });
+});
+
+describe('runResumeScreening self-repair', () => {
+  it('should send Zod issues back and report the repair rounds', async () => {
+    const requests: CompletionRequest[] = [];
+    const provider = new MockProvider({
+      handlers: {
+        ResumeScreening: (request: CompletionRequest) => {
+          requests.push(request);
+          return requests.length === 1 ? { ...validScreening(), fit_score: 150 } : validScreening();
+        }
+      }
+    });
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, {
+      provider,
+      repair: { enabled: true, maxRounds: 2 }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.repairRounds).toBe(1);
+    expect(result.metadata?.attempts.map(a => a.repairRound)).toEqual([undefined, 1]);
+
+    const followUp = requests[1].messages;
+    expect(followUp[followUp.length - 2].role).toBe('assistant');
+    expect(followUp[followUp.length - 1].content).toContain('- fit_score:');
+  });
+
+  it('should stop after maxRounds and fall through to a re-ask', async () => {
+    let calls = 0;
+    const provider = new MockProvider({
+      handlers: {
+        ResumeScreening: () => (++calls <= 3 ? { ...validScreening(), fit_score: -1 } : validScreening())
+      }
+    });
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, {
+      provider,
+      repair: { enabled: true, maxRounds: 2 }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata?.repairRounds).toBe(2);
+    expect(result.metadata?.attempts.map(a => a.repairRound)).toEqual([undefined, 1, 2, undefined]);
+  });
+});
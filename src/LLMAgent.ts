@@ -3,8 +3,9 @@
  *
  * This module demonstrates the complete flow of:
  * 1. Converting a Zod schema to JSON Schema for LLM consumption
- * 2. Calling OpenAI API with structured output enforcement
+ * 2. Calling an LLM provider with structured output enforcement
  * 3. Validating and parsing LLM responses back to typed objects
+ * 4. Retrying transient failures and falling back to a secondary model
  *
  * Key Concept: Constrained Decoding
  * When strict=true is set, the LLM's token generation is constrained
@@ -14,40 +15,57 @@
 
 import { z, ZodError } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import OpenAI from 'openai';
-import {
-  ResumeScreeningSchema,
-  ResumeScreening
-} from './SGRSchema.js';
+import { ResumeScreening } from './SGRSchema.js';
 import { openaiConfig, modelConfig } from './config.js';
-import { Resume, formatResumeAsText } from './examples/resumes.js';
+import {
+  LLMProvider,
+  ChatMessage,
+  CompletionRequest,
+  collectStream,
+  getDefaultProvider
+} from './LLMProvider.js';
+import { GroundingReport, verifyGrounding } from './EvidenceGrounding.js';
+import { ScoreReport, computeFitScore } from './Scoring.js';
+import { ExperienceReport, checkExperienceDurations } from './ExperienceDuration.js';
+import { JobAnalysis, checkScreeningAgainstJob } from './JobAnalysis.js';
+import { normalizeScreeningSkills } from './SkillTaxonomy.js';
+import {
+  RedactionOptions,
+  RedactionReport,
+  resolveRedactionOptions,
+  redactResume,
+  redactScreening,
+  restoreScreening
+} from './Redaction.js';
+import { buildScreeningSchema, validateCriteriaCoverage } from './ScreeningCriteria.js';
+import {
+  PromptTemplate,
+  PromptRegistry,
+  defaultPromptRegistry,
+  buildPromptVariables,
+  renderPrompt
+} from './PromptRegistry.js';
+import { FewShotOptions, FewShotReport, selectFewShotExamples } from './FewShotSelector.js';
+import {
+  SemanticIssue,
+  validateScreeningSemantics,
+  toZodIssues
+} from './SemanticValidation.js';
+import {
+  RepairOptions,
+  resolveRepairOptions,
+  buildRepairMessages
+} from './SchemaRepair.js';
+import {
+  RetryPolicy,
+  resolveRetryPolicy,
+  computeBackoffDelay,
+  isTransientError,
+  sleep as defaultSleep
+} from './RetryPolicy.js';
+import { Resume } from './examples/resumes.js';
 import { JobDescription } from './examples/jobDescriptions.js';
 
-// ============================================================================
-// OpenAI Client Setup
-// ============================================================================
-
-let openaiClient: OpenAI | null = null;
-
-/**
- * Get or create the OpenAI client
- */
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    if (!openaiConfig.apiKey) {
-      throw new Error(
-        'OPENAI_API_KEY environment variable is not set. ' +
-        'Set it with: export OPENAI_API_KEY=your-api-key'
-      );
-    }
-    openaiClient = new OpenAI({
-      apiKey: openaiConfig.apiKey,
-      baseURL: openaiConfig.baseURL
-    });
-  }
-  return openaiClient;
-}
-
 /**
  * Converts a Zod schema to JSON Schema format
  *
@@ -70,203 +88,536 @@ export function zodToJsonSchemaString<T extends z.ZodType>(
 }
 
 /**
- * LLMAgentResult - Result of the agent processing
+ * AgentErrorType - Failure categories shared by all structured calls
  */
-export interface LLMAgentResult {
+export type AgentErrorType = 'api_error' | 'parse_error' | 'validation_error' | 'semantic_error';
+
+/**
+ * AttemptRecord - One provider call made while producing a result
+ */
+export interface AttemptRecord {
+  attempt: number;
+  model: string;
+  // Set when this call was a self-repair follow-up (1-based round)
+  repairRound?: number;
+  outcome: 'success' | AgentErrorType;
+  message?: string;
+  tokensUsed: number;
+  durationMs: number;
+}
+
+/**
+ * AgentResult - Result of any structured agent call
+ */
+export interface AgentResult<T> {
   success: boolean;
-  data?: ResumeScreening;
+  data?: T;
   error?: {
-    type: 'api_error' | 'parse_error' | 'validation_error';
+    type: AgentErrorType;
     message: string;
     details?: z.ZodIssue[];
   };
   metadata?: {
     model: string;
     tokensUsed: number;
+    attempts: AttemptRecord[];
+    fallbackUsed: boolean;
+    repairRounds: number;
+    // Registry template that produced the result (set by agents that use the PromptRegistry)
+    promptId?: string;
+    promptVersion?: string;
   };
   rawResponse?: string;
 }
 
 /**
- * runResumeScreening - Main agent function
- *
- * This is the primary interface for running a resume screening.
- * It demonstrates the full Structured Outputs workflow:
- *
- * 1. Generate JSON Schema from Zod definition
- * 2. Call OpenAI API with schema constraint
- * 3. Parse and validate response
- * 4. Return typed result or detailed error
- *
- * @param resume - Candidate resume to analyze
- * @param job - Job description to match against
- * @returns Validated ResumeScreening or error details
+ * LLMAgentResult - Result of the agent processing
  */
-export async function runResumeScreening(
-  resume: Resume,
-  job: JobDescription
-): Promise<LLMAgentResult> {
-  const modelToUse = openaiConfig.model || modelConfig.primaryModel;
+export interface LLMAgentResult extends AgentResult<ResumeScreening> {
+  // How well the screening's citations are supported by the resume
+  grounding?: GroundingReport;
+  // Model fit_score next to the deterministic weighted score
+  scoring?: ScoreReport;
+  // Tenure parsed from the resume dates, with corrections to the model's arithmetic
+  experience?: ExperienceReport;
+  // Resume fields hidden from the model (when redaction is enabled)
+  redaction?: RedactionReport;
+  // Few-shot examples added to the prompt (when fewShot is set)
+  fewShot?: FewShotReport;
+}
 
-  // Format resume and job for the prompt
-  const resumeText = formatResumeAsText(resume);
-  const jobRequirements = [
-    'Required:',
-    ...job.requirements.required.map(r => `  - ${r}`),
-    'Preferred:',
-    ...job.requirements.preferred.map(r => `  - ${r}`)
-  ].join('\n');
+/**
+ * AgentCallOptions - Per-call overrides shared by all structured calls
+ */
+export interface AgentCallOptions {
+  // LLM backend (defaults to the provider selected by LLM_PROVIDER)
+  provider?: LLMProvider;
+  // Model override (defaults to OPENAI_MODEL or modelConfig.primaryModel)
+  model?: string;
+  // Retry/backoff/fallback overrides (defaults to modelConfig + retryConfig)
+  retry?: Partial<RetryPolicy>;
+  // Delay implementation, injectable so tests don't actually wait
+  sleep?: (ms: number) => Promise<void>;
+  // Self-repair loop overrides (defaults to repairConfig)
+  repair?: Partial<RepairOptions>;
+  // Receive response text as it arrives (streamed when the provider supports it);
+  // attempt matches metadata.attempts, and every attempt starts a new response
+  onDelta?: (delta: string, attempt: number) => void;
+}
 
-  const prompt = `
-Analyze the following resume against the job requirements.
+/**
+ * ScreeningOptions - Per-call overrides for runResumeScreening
+ */
+export interface ScreeningOptions extends AgentCallOptions {
+  // Cross-field consistency rules (default true)
+  semanticValidation?: boolean;
+  // Check cited evidence against the resume text (default true)
+  verifyGrounding?: boolean;
+  // Recompute fit_score from the structured fields (default true)
+  computeScore?: boolean;
+  // Typed requirements from analyzeJob; enables mechanical checks against the job
+  jobAnalysis?: JobAnalysis;
+  // Map skill names to their canonical taxonomy names (default true)
+  normalizeSkills?: boolean;
+  // Check duration_months and total_years against the resume dates (default true)
+  checkExperience?: boolean;
+  // Clock that "Present" in resume dates resolves to
+  now?: () => Date;
+  // PII/bias redaction overrides (defaults to redactionConfig)
+  redaction?: Partial<RedactionOptions>;
+  // Template to use: inline, or by ID (latest version unless given); defaults to registry.forJob(job)
+  prompt?: PromptTemplate | { id: string; version?: string };
+  // Where prompt IDs are looked up (defaults to defaultPromptRegistry)
+  promptRegistry?: PromptRegistry;
+  // Add similar labeled screenings as worked examples (replaces the template's own)
+  fewShot?: FewShotOptions;
+}
 
-## Job: ${job.title}
-${job.description}
+/**
+ * StructuredCallSpec - What to ask for and how to validate it
+ */
+export interface StructuredCallSpec<T> {
+  schema: z.ZodType<T>;
+  schemaName: string;
+  messages: ChatMessage[];
+  context?: Record<string, unknown>;
+  // Cross-field rules applied after Zod parsing succeeds
+  semanticCheck?: (data: T) => SemanticIssue<string>[];
+}
 
-## Requirements:
-${jobRequirements}
+/**
+ * Outcome of a single provider call, before retry decisions are made
+ */
+interface AttemptOutcome<T> {
+  data?: T;
+  error?: NonNullable<AgentResult<T>['error']>;
+  rawResponse?: string;
+  model: string;
+  tokensUsed: number;
+  transient: boolean;
+}
 
-## Resume:
-${resumeText}
+/**
+ * Build the JSON schema for Structured Outputs
+ *
+ * Use $refStrategy: 'none' to inline all definitions (OpenAI requires flat schema)
+ */
+function buildResponseSchema(schema: z.ZodType): Record<string, unknown> {
+  return zodToJsonSchema(schema, {
+    // Strict mode requires every property: optional fields are sent as required + nullable
+    target: 'openAi',
+    $refStrategy: 'none',
+    errorMessages: true
+  });
+}
 
----
-Candidate ID: ${resume.candidateId}
-Job ID: ${job.jobId}
+/**
+ * Make one provider call and classify the result
+ */
+async function attemptStructuredCompletion<T>(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  spec: StructuredCallSpec<T>,
+  logPrefix: string,
+  onDelta?: (delta: string) => void
+): Promise<AttemptOutcome<T>> {
+  let response;
+  try {
+    if (onDelta && provider.stream) {
+      response = await collectStream(provider.stream(request), request.model, onDelta);
+    } else {
+      response = await provider.complete(request);
+      // Without stream() the whole response arrives as one delta
+      if (onDelta && response.content) onDelta(response.content);
+    }
+  } catch (error) {
+    console.error(`${logPrefix} Error:`, error);
 
-Provide your screening analysis as a JSON object. Be thorough and cite specific evidence from the resume.
-`;
+    return {
+      error: {
+        type: 'api_error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      model: request.model,
+      tokensUsed: 0,
+      transient: isTransientError(error)
+    };
+  }
+
+  const content = response.content;
+
+  if (!content) {
+    return {
+      error: {
+        type: 'api_error',
+        message: 'No content in LLM response'
+      },
+      model: response.model,
+      tokensUsed: response.tokensUsed,
+      transient: true
+    };
+  }
 
-  console.log('[OpenAI API] Making API call...');
-  console.log(`[OpenAI API] Model: ${modelToUse}`);
-  console.log(`[OpenAI API] Prompt length: ${prompt.length} chars`);
+  console.log(`${logPrefix} Response received successfully`);
+  console.log(`${logPrefix} Tokens used: ${response.tokensUsed || 'unknown'}`);
 
+  // Parse JSON from response
+  let parsedJson: unknown;
   try {
-    const client = getOpenAIClient();
+    parsedJson = JSON.parse(content);
+  } catch (e) {
+    return {
+      error: {
+        type: 'parse_error',
+        message: `Failed to parse JSON: ${e instanceof Error ? e.message : 'Unknown error'}`
+      },
+      rawResponse: content,
+      model: response.model,
+      tokensUsed: response.tokensUsed,
+      transient: false
+    };
+  }
 
-    // Build the JSON schema for Structured Outputs
-    // Use $refStrategy: 'none' to inline all definitions (OpenAI requires flat schema)
-    const jsonSchema = zodToJsonSchema(ResumeScreeningSchema, {
-      $refStrategy: 'none',
-      errorMessages: true
-    });
+  // Validate against Zod schema
+  // With Constrained Decoding (strict=true), this should never fail
+  try {
+    const validatedData = spec.schema.parse(parsedJson);
 
-    const response = await client.chat.completions.create({
-      model: modelToUse,
-      max_tokens: modelConfig.maxTokens,
-      temperature: modelConfig.temperature,
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert HR recruiter screening resumes. You must analyze resumes against job requirements and provide structured screening assessments.
-
-Your response MUST follow Schema-Guided Reasoning:
-1. Evaluate technical skills against requirements (with specific evidence)
-2. Assess experience level and relevance (with specific evidence)
-3. Review education background (with specific evidence)
-4. Identify at least 3 screening steps with detailed evidence from the resume
-5. Provide an overall fit assessment
-6. Recommend a specific next action
-
-Be thorough and cite specific details from the resume as evidence.`
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: {
-          name: 'ResumeScreening',
-          strict: true,
-          schema: jsonSchema
-        }
-      }
-    });
+    console.log('[Validation] SUCCESS - Data matches schema');
 
-    const content = response.choices[0]?.message?.content;
+    // Schema-valid is not the same as consistent: apply cross-field rules
+    const semanticIssues = spec.semanticCheck?.(validatedData) ?? [];
+    if (semanticIssues.length > 0) {
+      console.log('[Validation] FAILED - Semantic rule violations detected');
+      console.log('[Validation] Issues:', JSON.stringify(semanticIssues, null, 2));
 
-    if (!content) {
       return {
-        success: false,
         error: {
-          type: 'api_error',
-          message: 'No content in OpenAI response'
-        }
+          type: 'semantic_error',
+          message: semanticIssues.map(issue => issue.message).join('; '),
+          details: toZodIssues(semanticIssues)
+        },
+        rawResponse: content,
+        model: response.model,
+        tokensUsed: response.tokensUsed,
+        transient: false
       };
     }
 
-    console.log('[OpenAI API] Response received successfully');
-    console.log(`[OpenAI API] Tokens used: ${response.usage?.total_tokens || 'unknown'}`);
+    return {
+      data: validatedData,
+      rawResponse: content,
+      model: response.model,
+      tokensUsed: response.tokensUsed,
+      transient: false
+    };
+  } catch (e) {
+    if (e instanceof ZodError) {
+      console.log('[Validation] FAILED - Schema violations detected');
+      console.log('[Validation] Issues:', JSON.stringify(e.issues, null, 2));
 
-    // Parse JSON from response
-    let parsedJson: unknown;
-    try {
-      parsedJson = JSON.parse(content);
-    } catch (e) {
       return {
-        success: false,
         error: {
-          type: 'parse_error',
-          message: `Failed to parse JSON: ${e instanceof Error ? e.message : 'Unknown error'}`
+          type: 'validation_error',
+          message: e.message,
+          details: e.issues
         },
         rawResponse: content,
-        metadata: {
-          model: response.model,
-          tokensUsed: response.usage?.total_tokens || 0
-        }
+        model: response.model,
+        tokensUsed: response.tokensUsed,
+        transient: false
       };
     }
+    throw e;
+  }
+}
 
-    // Validate against Zod schema
-    // With Constrained Decoding (strict=true), this should never fail
-    try {
-      const validatedData = ResumeScreeningSchema.parse(parsedJson);
-
-      console.log('[Validation] SUCCESS - Data matches ResumeScreeningSchema');
+/**
+ * Append a corrective note to the last user turn after bad output
+ */
+function withReaskNote(messages: ChatMessage[], error: NonNullable<AgentResult<unknown>['error']>): ChatMessage[] {
+  const note = error.type === 'parse_error'
+    ? 'Your previous response was not valid JSON.'
+    : error.type === 'semantic_error'
+      ? `Your previous response had inconsistent fields (${error.message}).`
+      : 'Your previous response did not match the required schema.';
 
-      return {
-        success: true,
-        data: validatedData,
-        rawResponse: content,
-        metadata: {
-          model: response.model,
-          tokensUsed: response.usage?.total_tokens || 0
+  return messages.map((message, index) =>
+    index === messages.length - 1
+      ? {
+          ...message,
+          content: `${message.content}\n\nIMPORTANT: ${note} Return a single JSON object that matches the schema exactly.`
         }
-      };
-    } catch (e) {
-      if (e instanceof ZodError) {
-        console.log('[Validation] FAILED - Schema violations detected');
-        console.log('[Validation] Issues:', JSON.stringify(e.issues, null, 2));
+      : message
+  );
+}
+
+/**
+ * runStructuredCompletion - Retry/fallback engine behind every agent call
+ *
+ * Per model, up to 1 + maxRetries attempts are made:
+ * - api_error (transient): exponential backoff, then retry the same model
+ * - api_error (permanent): stop retrying this model
+ * - validation_error / semantic_error: if repair is enabled, up to maxRounds
+ *   follow-up turns with the issues, then re-ask if still invalid
+ * - parse_error / validation_error / semantic_error: re-ask immediately with
+ *   a corrective note
+ *
+ * When the primary model is exhausted, the fallback model gets the same budget.
+ * Every attempt is recorded in metadata.attempts.
+ */
+export async function runStructuredCompletion<T>(
+  spec: StructuredCallSpec<T>,
+  options: AgentCallOptions = {}
+): Promise<AgentResult<T>> {
+  const provider = options.provider ?? getDefaultProvider();
+  const policy = resolveRetryPolicy(options.retry);
+  const repair = resolveRepairOptions(options.repair);
+  const wait = options.sleep ?? defaultSleep;
+  const primaryModel = options.model || openaiConfig.model || modelConfig.primaryModel;
+  const models = policy.fallbackModel && policy.fallbackModel !== primaryModel
+    ? [primaryModel, policy.fallbackModel]
+    : [primaryModel];
+  const logPrefix = `[LLM:${provider.name}]`;
+  const jsonSchema = buildResponseSchema(spec.schema);
 
+  const attempts: AttemptRecord[] = [];
+  let last: AttemptOutcome<T> | undefined;
+  let fallbackUsed = false;
+  let repairRounds = 0;
+
+  const callModel = async (model: string, messages: ChatMessage[], repairRound?: number) => {
+    const startedAt = Date.now();
+    const attempt = attempts.length + 1;
+    const onDelta = options.onDelta;
+    const outcome = await attemptStructuredCompletion(provider, {
+      model,
+      maxTokens: modelConfig.maxTokens,
+      temperature: modelConfig.temperature,
+      messages,
+      responseFormat: {
+        name: spec.schemaName,
+        strict: true,
+        schema: jsonSchema
+      },
+      context: spec.context
+    }, spec, logPrefix, onDelta && (delta => onDelta(delta, attempt)));
+
+    attempts.push({
+      attempt,
+      model,
+      repairRound,
+      outcome: outcome.error ? outcome.error.type : 'success',
+      message: outcome.error?.message,
+      tokensUsed: outcome.tokensUsed,
+      durationMs: Date.now() - startedAt
+    });
+    return outcome;
+  };
+
+  for (const [modelIndex, model] of models.entries()) {
+    if (modelIndex > 0) {
+      console.log(`${logPrefix} Primary model exhausted, falling back to ${model}`);
+      fallbackUsed = true;
+    }
+
+    let messages = spec.messages;
+    let transientRetries = 0;
+
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      const promptLength = messages.reduce((sum, m) => sum + m.content.length, 0);
+      console.log(`${logPrefix} Making API call...`);
+      console.log(`${logPrefix} Model: ${model} (attempt ${retry + 1}/${policy.maxRetries + 1})`);
+      console.log(`${logPrefix} Prompt length: ${promptLength} chars`);
+
+      let outcome = await callModel(model, messages);
+
+      // Self-repair: show the model its output plus the Zod issues
+      let repairMessages = messages;
+      for (let round = 1; repair.enabled && round <= repair.maxRounds; round++) {
+        const error = outcome.error;
+        const repairable = error?.type === 'validation_error' || error?.type === 'semantic_error';
+        if (!error || !repairable || !outcome.rawResponse) break;
+        console.log(`${logPrefix} Repair round ${round}/${repair.maxRounds}`);
+        repairMessages = buildRepairMessages(repairMessages, outcome.rawResponse, error.details ?? []);
+        outcome = await callModel(model, repairMessages, round);
+        repairRounds++;
+      }
+      last = outcome;
+
+      if (!outcome.error) {
         return {
-          success: false,
-          error: {
-            type: 'validation_error',
-            message: e.message,
-            details: e.issues
-          },
-          rawResponse: content,
-          metadata: {
-            model: response.model,
-            tokensUsed: response.usage?.total_tokens || 0
-          }
+          success: true,
+          data: outcome.data,
+          rawResponse: outcome.rawResponse,
+          metadata: buildMetadata(outcome.model, attempts, fallbackUsed, repairRounds)
         };
       }
-      throw e;
-    }
-  } catch (error) {
-    console.error('[OpenAI API] Error:', error);
 
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (retry === policy.maxRetries) break;
 
-    return {
-      success: false,
-      error: {
-        type: 'api_error',
-        message: errorMessage
+      if (outcome.error.type === 'api_error') {
+        if (!outcome.transient) break;
+        const delay = computeBackoffDelay(transientRetries++, policy);
+        console.log(`${logPrefix} Transient error, retrying in ${delay}ms`);
+        await wait(delay);
+      } else {
+        messages = withReaskNote(spec.messages, outcome.error);
       }
-    };
+    }
   }
+
+  return {
+    success: false,
+    error: last?.error,
+    rawResponse: last?.rawResponse,
+    metadata: buildMetadata(last?.model ?? primaryModel, attempts, fallbackUsed, repairRounds)
+  };
+}
+
+function buildMetadata(
+  model: string,
+  attempts: AttemptRecord[],
+  fallbackUsed: boolean,
+  repairRounds: number
+): NonNullable<AgentResult<unknown>['metadata']> {
+  return {
+    model,
+    tokensUsed: attempts.reduce((sum, a) => sum + a.tokensUsed, 0),
+    attempts,
+    fallbackUsed,
+    repairRounds
+  };
 }
 
+/**
+ * Template for a screening: explicit, by ID, or the registry's pick for the job
+ */
+function resolvePromptTemplate(job: JobDescription, options: ScreeningOptions): PromptTemplate {
+  const registry = options.promptRegistry ?? defaultPromptRegistry;
+  const prompt = options.prompt;
+  if (prompt && 'system' in prompt) return prompt;
+  if (prompt) return registry.get(prompt.id, prompt.version);
+  return registry.forJob(job);
+}
+
+/**
+ * runResumeScreening - Main agent function
+ *
+ * This is the primary interface for running a resume screening.
+ * It demonstrates the full Structured Outputs workflow:
+ *
+ * 1. Generate JSON Schema from Zod definition
+ * 2. Redact identifying resume fields (when enabled), pick few-shot examples
+ *    and render the prompt template
+ * 3. Call the LLM provider with schema constraint
+ * 4. Parse and validate response (schema, then cross-field rules)
+ * 5. Retry or fall back on failure
+ * 6. Restore redacted values and normalize skill names
+ * 7. Verify cited evidence against the resume
+ * 8. Recompute fit_score deterministically and compare
+ * 9. Check tenure arithmetic against the resume dates
+ * 10. Return typed result or detailed error
+ *
+ * @param resume - Candidate resume to analyze
+ * @param job - Job description to match against
+ * @param options - Provider, model, retry, repair and validation overrides
+ * @returns Validated ResumeScreening or error details
+ */
+export async function runResumeScreening(
+  resume: Resume,
+  job: JobDescription,
+  options: ScreeningOptions = {}
+): Promise<LLMAgentResult> {
+  // Format resume and job for the prompt
+  const redaction = resolveRedactionOptions(options.redaction);
+  const redacted = redaction.enabled ? redactResume(resume, redaction) : null;
+  if (redacted) {
+    const { masked, textReplacements } = redacted.report;
+    console.log(`[Redaction] Masked ${masked.length} field(s), ${textReplacements} free-text mention(s)`);
+  }
+  const criteria = job.screeningCriteria ?? [];
+  const template = resolvePromptTemplate(job, options);
+  const variables = buildPromptVariables(redacted ? redacted.resume : resume, job, redacted?.text);
+
+  const fewShot = options.fewShot ? selectFewShotExamples(job, resume.candidateId, template, options.fewShot) : null;
+  if (fewShot) {
+    const { source, selected, considered, tokensUsed } = fewShot.report;
+    console.log(`[FewShot] ${selected.length} of ${considered} example(s) from ${source}, ~${tokensUsed} tokens`);
+  }
+  // Examples are redacted like the resume, so they read like the real request
+  const examples = fewShot && redacted
+    ? fewShot.examples.map(example => {
+        const masked = redactResume(example.resume, redaction);
+        return { ...example, resume: masked.resume, resumeText: masked.text, screening: redactScreening(example.screening, masked) };
+      })
+    : fewShot?.examples;
+
+  const result: LLMAgentResult = await runStructuredCompletion({
+    schema: buildScreeningSchema(criteria),
+    schemaName: 'ResumeScreening',
+    messages: renderPrompt(template, variables, examples),
+    context: { resume: redacted ? redacted.resume : resume, job },
+    semanticCheck: options.semanticValidation === false
+      ? undefined
+      : screening => [
+          ...validateScreeningSemantics(screening),
+          ...validateCriteriaCoverage(screening, criteria),
+          ...(options.jobAnalysis ? checkScreeningAgainstJob(screening, options.jobAnalysis) : [])
+        ]
+  }, options);
+  if (result.metadata) {
+    result.metadata.promptId = template.id;
+    result.metadata.promptVersion = template.version;
+  }
+
+  if (fewShot) result.fewShot = fewShot.report;
+
+  if (redacted) {
+    result.redaction = redacted.report;
+    if (result.success && result.data) result.data = restoreScreening(result.data, redacted);
+  }
+
+  if (result.success && result.data && options.normalizeSkills !== false) {
+    result.data = normalizeScreeningSkills(result.data);
+  }
+
+  if (result.success && result.data && options.verifyGrounding !== false) {
+    result.grounding = verifyGrounding(result.data, resume);
+    console.log(`[Grounding] Score: ${result.grounding.score} (${result.grounding.checked} items checked)`);
+  }
+
+  if (result.success && result.data && options.computeScore !== false) {
+    result.scoring = computeFitScore(result.data, job);
+    const { modelScore, computedScore, diverged } = result.scoring;
+    console.log(`[Scoring] Model ${modelScore}, computed ${computedScore}${diverged ? ' - DIVERGED' : ''}`);
+  }
+
+  if (result.success && result.data && options.checkExperience !== false) {
+    result.experience = checkExperienceDurations(result.data, resume, (options.now ?? (() => new Date()))());
+    const { corrections, unparsed } = result.experience;
+    console.log(`[Experience] ${corrections.length} correction(s)${unparsed.length > 0 ? `, ${unparsed.length} unparsed duration(s)` : ''}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,247 @@
+/**
+ * LLMProvider.ts - Pluggable LLM Provider Interface
+ *
+ * The agent never talks to a vendor SDK directly. Instead it builds a
+ * provider-neutral CompletionRequest (messages + JSON Schema constraint)
+ * and hands it to an LLMProvider. This keeps the Structured Outputs
+ * workflow identical whether the completion comes from OpenAI or from
+ * the offline MockProvider used in CI.
+ *
+ * Providers may also implement stream(), which yields the response text
+ * as it is generated; collectStream() turns such a stream back into a
+ * CompletionResponse.
+ */
+
+import OpenAI from 'openai';
+import { openaiConfig, providerConfig } from './config.js';
+
+// ============================================================================
+// Provider Contract
+// ============================================================================
+
+/**
+ * ChatMessage - A single turn in the conversation sent to the model
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * ResponseFormat - JSON Schema constraint for Structured Outputs
+ */
+export interface ResponseFormat {
+  name: string;
+  strict: boolean;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * CompletionRequest - Everything a provider needs to produce one completion
+ *
+ * `context` carries the typed inputs the prompt was built from (resume, job, ...).
+ * Remote providers ignore it; the MockProvider uses it to answer deterministically.
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  responseFormat: ResponseFormat;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * CompletionResponse - Raw completion returned by a provider
+ */
+export interface CompletionResponse {
+  content: string | null;
+  model: string;
+  tokensUsed: number;
+}
+
+/**
+ * CompletionChunk - One piece of a streamed completion
+ */
+export interface CompletionChunk {
+  // Next piece of content (may be empty, e.g. on a final usage-only chunk)
+  delta: string;
+  model?: string;
+  // Total tokens for the request, on the chunk that reports usage
+  tokensUsed?: number;
+}
+
+/**
+ * LLMProvider - Minimal interface every model backend must implement
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  // Optional incremental variant of complete()
+  stream?(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+}
+
+/**
+ * Read a stream into one response, passing each piece of content to onDelta
+ *
+ * @param chunks - Result of provider.stream()
+ * @param model - Model reported when no chunk names one
+ * @param onDelta - Called with every non-empty delta, in order
+ */
+export async function collectStream(
+  chunks: AsyncIterable<CompletionChunk>,
+  model: string,
+  onDelta: (delta: string) => void
+): Promise<CompletionResponse> {
+  let content = '';
+  let tokensUsed = 0;
+  for await (const chunk of chunks) {
+    if (chunk.delta) {
+      content += chunk.delta;
+      onDelta(chunk.delta);
+    }
+    if (chunk.model) model = chunk.model;
+    if (chunk.tokensUsed !== undefined) tokensUsed = chunk.tokensUsed;
+  }
+  return { content: content || null, model, tokensUsed };
+}
+
+// ============================================================================
+// OpenAI Provider
+// ============================================================================
+
+/**
+ * OpenAIProvider - Chat Completions API with strict json_schema output
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: { apiKey?: string; baseURL?: string } = {}) {}
+
+  /**
+   * Get or create the OpenAI client
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = this.options.apiKey ?? openaiConfig.apiKey;
+      if (!apiKey) {
+        throw new Error(
+          'OPENAI_API_KEY environment variable is not set. ' +
+          'Set it with: export OPENAI_API_KEY=your-api-key'
+        );
+      }
+      this.client = new OpenAI({
+        apiKey,
+        baseURL: this.options.baseURL ?? openaiConfig.baseURL
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * Request parameters shared by complete() and stream()
+   */
+  private buildParams(request: CompletionRequest): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages,
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: request.responseFormat.name,
+          strict: request.responseFormat.strict,
+          schema: request.responseFormat.schema
+        }
+      }
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.getClient().chat.completions.create(this.buildParams(request));
+
+    return {
+      content: response.choices[0]?.message?.content ?? null,
+      model: response.model,
+      tokensUsed: response.usage?.total_tokens || 0
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const stream = await this.getClient().chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      // Usage arrives on a final chunk with no choices
+      stream_options: { include_usage: true }
+    });
+
+    for await (const chunk of stream) {
+      yield {
+        delta: chunk.choices[0]?.delta?.content ?? '',
+        model: chunk.model,
+        tokensUsed: chunk.usage?.total_tokens
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Mock Provider
+// ============================================================================
+
+/**
+ * LazyMockProvider - Loads MockProvider and its handlers on first use
+ *
+ * Keeps the mock out of the import graph of every module that only needs
+ * the provider contract.
+ */
+class LazyMockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private provider: Promise<LLMProvider> | null = null;
+
+  private load(): Promise<LLMProvider> {
+    this.provider ??= import('./MockProvider.js').then(m => new m.MockProvider());
+    return this.provider;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    return (await this.load()).complete(request);
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const provider = await this.load();
+    yield* provider.stream!(request);
+  }
+}
+
+// ============================================================================
+// Default Provider Resolution
+// ============================================================================
+
+let defaultProvider: LLMProvider | null = null;
+
+/**
+ * Get the provider selected by LLM_PROVIDER (openai | mock)
+ */
+export function getDefaultProvider(): LLMProvider {
+  if (!defaultProvider) {
+    defaultProvider = createProvider(providerConfig.provider);
+  }
+  return defaultProvider;
+}
+
+/**
+ * Create a provider by name
+ */
+export function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'mock':
+      return new LazyMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}. Expected one of: openai, mock`);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * MockEmail.ts - Mock CandidateEmail Handler
+ *
+ * Template email per type (context: screening, resume, job, emailType).
+ */
+
+import type { CompletionRequest } from './LLMProvider.js';
+import type { ResumeScreening } from './SGRSchema.js';
+import type { CandidateEmail } from './CandidateEmail.js';
+import { emailConfig, EmailType } from './config.js';
+import type { Resume } from './examples/resumes.js';
+import type { JobDescription } from './examples/jobDescriptions.js';
+
+export function emailHandler(request: CompletionRequest): CandidateEmail {
+  const screening = request.context?.screening as ResumeScreening | undefined;
+  const resume = request.context?.resume as Resume | undefined;
+  const job = request.context?.job as JobDescription | undefined;
+  const emailType = request.context?.emailType as EmailType | undefined;
+  if (!screening || !resume || !emailType) {
+    throw new Error('MockProvider requires screening, resume and emailType in the request context');
+  }
+  return buildMockEmail(emailType, screening, resume, job);
+}
+
+/**
+ * buildMockEmail - Template email that passes checkEmailDraft
+ */
+export function buildMockEmail(
+  emailType: EmailType,
+  screening: ResumeScreening,
+  resume: Resume,
+  job?: JobDescription
+): CandidateEmail {
+  const firstName = resume.name.split(/\s+/)[0];
+  const role = job?.title ?? 'the position you applied for';
+  const strength = screening.strengths[0];
+
+  const templates: Record<EmailType, { subject: string; body: string[]; cta: string | null }> = {
+    application_received: {
+      subject: `Your application for ${role}`,
+      body: [`Thank you for applying for ${role} at ${emailConfig.companyName}.`, 'Our team is reviewing your application and will be in touch soon.'],
+      cta: 'No action is needed from you at this time.'
+    },
+    phone_screen_invite: {
+      subject: `Phone screen for ${role}`,
+      body: [`Thank you for applying for ${role}. We would like to schedule a short phone conversation.`, ...(strength ? [`We were glad to see: ${strength}.`] : [])],
+      cta: 'Please reply with a few times that work for you this week.'
+    },
+    interview_invite: {
+      subject: `Interview invitation for ${role}`,
+      body: [`Thank you for applying for ${role}. We would like to invite you to interview with our team.`, ...(strength ? [`We were glad to see: ${strength}.`] : [])],
+      cta: 'Please reply with your availability over the next two weeks.'
+    },
+    rejection: {
+      subject: `Your application for ${role}`,
+      body: [`Thank you for your interest in ${role} at ${emailConfig.companyName}.`, 'After careful consideration, we have decided to move forward with other candidates. We wish you the best in your search.'],
+      cta: null
+    },
+    offer_letter: {
+      subject: `Offer for ${role}`,
+      body: [`We are delighted to offer you the ${role} position at ${emailConfig.companyName}.`],
+      cta: 'Please review the attached offer and reply with any questions.'
+    },
+    request_more_info: {
+      subject: `More information about your application for ${role}`,
+      body: [`Thank you for applying for ${role}. We would like to learn a little more about your background.`],
+      cta: 'Please reply with more detail about your recent experience.'
+    }
+  };
+  const template = templates[emailType];
+
+  return {
+    email_type: emailType,
+    to: resume.email,
+    subject: template.subject,
+    greeting: `Dear ${firstName},`,
+    body_paragraphs: template.body,
+    call_to_action: template.cta,
+    closing: 'Best regards,',
+    signature: `${emailConfig.senderName}, ${emailConfig.companyName}`,
+    tone: emailType === 'rejection' ? 'formal' : 'warm'
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * MockExtraction.ts - Mock ResumeExtraction Handler
+ *
+ * Reads resumes written in the formatResumeAsText layout (context: text).
+ */
+
+import type { CompletionRequest } from './LLMProvider.js';
+import type { ResumeExtraction } from './ResumeParser.js';
+
+export function extractionHandler(request: CompletionRequest): ResumeExtraction {
+  const text = request.context?.text;
+  if (typeof text !== 'string') {
+    throw new Error('MockProvider requires text in the request context');
+  }
+  return buildMockExtraction(text);
+}
+
+/**
+ * Split Markdown into "## Heading" sections (content before the first heading is keyed '')
+ */
+function splitSections(text: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>([['', []]]);
+  let current = '';
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      current = heading[1].toLowerCase();
+      sections.set(current, []);
+    } else {
+      sections.get(current)?.push(line);
+    }
+  }
+  for (const [key, lines] of sections) {
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+    while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+    sections.set(key, lines);
+  }
+  return sections;
+}
+
+function bullets(lines: string[]): string[] {
+  return lines.filter(l => l.startsWith('- ')).map(l => l.slice(2).trim());
+}
+
+/**
+ * buildMockExtraction - Deterministic reader for the formatResumeAsText layout
+ *
+ * Sections it cannot find come back empty with low confidence, just as a
+ * real model would report for an unfamiliar layout.
+ */
+export function buildMockExtraction(text: string): ResumeExtraction {
+  const sections = splitSections(text);
+  const header = sections.get('') ?? [];
+  const field = (label: string) =>
+    header.find(l => l.startsWith(`${label}:`))?.slice(label.length + 1).trim() ?? null;
+
+  const experience: ResumeExtraction['experience'] = [];
+  for (const line of sections.get('experience') ?? []) {
+    const role = line.match(/^###\s+(.+?)\s+at\s+(.+)$/);
+    if (role) {
+      experience.push({ title: role[1], company: role[2].trim(), duration: '', achievements: [] });
+    } else if (experience.length > 0 && line.startsWith('- ')) {
+      experience[experience.length - 1].achievements.push(line.slice(2).trim());
+    } else if (experience.length > 0 && line.trim() && !experience[experience.length - 1].duration) {
+      experience[experience.length - 1].duration = line.trim();
+    }
+  }
+
+  const education = bullets(sections.get('education') ?? []).map(entry => {
+    const gpa = entry.match(/\s*\(GPA:\s*([\d.]+)\)$/);
+    const parts = entry.replace(/\s*\(GPA:[^)]*\)$/, '').split(', ');
+    const year = /^\d{4}$/.test(parts[parts.length - 1]) ? parseInt(parts.pop() as string, 10) : null;
+    return {
+      degree: parts[0] ?? '',
+      institution: parts.slice(1).join(', '),
+      year,
+      gpa: gpa ? parseFloat(gpa[1]) : null
+    };
+  });
+
+  const projects = bullets(sections.get('projects') ?? []).map(entry => {
+    const match = entry.match(/^\*\*(.+?)\*\*:\s*(.*?)(?:\s+\(([^()\s]+)\))?$/);
+    return match
+      ? { name: match[1], description: match[2], url: match[3] ?? null }
+      : { name: entry, description: entry, url: null };
+  });
+
+  const skillsLine = (sections.get('skills') ?? []).join(' ').trim();
+  const found: Record<string, boolean> = {
+    contact: field('Email') !== null,
+    summary: sections.has('summary'),
+    experience: experience.length > 0,
+    education: education.length > 0,
+    skills: skillsLine.length > 0,
+    certifications: sections.has('certifications'),
+    projects: sections.has('projects')
+  };
+
+  return {
+    name: header.find(l => l.startsWith('# '))?.slice(2).trim() ?? '',
+    email: field('Email') ?? '',
+    phone: field('Phone'),
+    summary: (sections.get('summary') ?? []).join('\n'),
+    experience,
+    education,
+    skills: skillsLine ? skillsLine.split(/,\s*/) : [],
+    certifications: bullets(sections.get('certifications') ?? []),
+    projects,
+    section_confidence: Object.entries(found).map(([section, present]) => ({
+      section: section as ResumeExtraction['section_confidence'][number]['section'],
+      // Certifications and projects are legitimately absent from many resumes
+      confidence: present ? 0.95 : section === 'certifications' || section === 'projects' ? 0.9 : 0.5,
+      notes: present ? '' : `No ${section} section found`
+    }))
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * MockInterviewPlan.ts - Mock InterviewPlan Handler
+ *
+ * One question per screening finding (context: screening).
+ */
+
+import type { CompletionRequest } from './LLMProvider.js';
+import type { ResumeScreening, RecommendedAction } from './SGRSchema.js';
+import type { InterviewPlan, InterviewStage, InterviewQuestion, InterviewTarget } from './InterviewPlan.js';
+import { requiredTargets } from './InterviewPlan.js';
+import { interviewConfig, InterviewType } from './config.js';
+
+export function interviewPlanHandler(request: CompletionRequest): InterviewPlan {
+  const screening = request.context?.screening as ResumeScreening | undefined;
+  if (!screening) {
+    throw new Error('MockProvider requires screening in the request context');
+  }
+  return buildMockInterviewPlan(screening);
+}
+
+const STAGES_FOR_ACTION: Record<RecommendedAction, InterviewType[]> = {
+  advance_to_interview: ['technical', 'behavioral', 'hiring_manager'],
+  phone_screen_first: ['phone_screen', 'technical', 'behavioral', 'final_round'],
+  hold_for_review: ['phone_screen', 'technical'],
+  reject: ['phone_screen']
+};
+
+const STAGE_DETAILS: Record<InterviewType, { interviewer: string; objective: string }> = {
+  phone_screen: { interviewer: 'Recruiter', objective: 'Confirm background, motivation and logistics' },
+  technical: { interviewer: 'Senior Engineer', objective: 'Verify technical depth against the required skills' },
+  behavioral: { interviewer: 'Engineering Manager', objective: 'Assess collaboration, ownership and communication' },
+  panel: { interviewer: 'Cross-functional panel', objective: 'Get a broad read from future teammates' },
+  hiring_manager: { interviewer: 'Hiring Manager', objective: 'Assess scope, seniority and team fit' },
+  final_round: { interviewer: 'Department Head', objective: 'Make the final hiring decision' }
+};
+
+/**
+ * Preferred stages for each kind of finding (first available wins)
+ */
+function preferredStages(target: InterviewTarget, screening: ResumeScreening): InterviewType[] {
+  if (target.type === 'missing_required_skill') return ['technical', 'phone_screen'];
+  if (target.type === 'concern') return ['behavioral', 'hiring_manager', 'phone_screen'];
+  const step = screening.screening_steps.find(s => s.step_number === target.stepNumber);
+  switch (step?.evaluation_category) {
+    case 'technical_skills': return ['technical', 'phone_screen'];
+    case 'experience_level': return ['hiring_manager', 'final_round', 'technical', 'phone_screen'];
+    case 'education': return ['phone_screen', 'hiring_manager', 'technical'];
+    default: return ['behavioral', 'hiring_manager', 'phone_screen'];
+  }
+}
+
+function mockQuestion(target: InterviewTarget): InterviewQuestion {
+  const subject = target.text.replace(/^Does not clearly meet:\s*/, '');
+  return {
+    question: target.type === 'strength'
+      ? `Walk me through the work behind this strength: ${subject}`
+      : `Tell me about your experience with: ${subject}`,
+    target_type: target.type,
+    target: target.text,
+    step_number: target.stepNumber,
+    rubric: {
+      strong: 'Gives a specific, recent example with measurable results and explains trade-offs',
+      acceptable: 'Gives a relevant example but with limited depth or ownership',
+      weak: 'Speaks only in generalities or has no relevant example'
+    }
+  };
+}
+
+/**
+ * buildMockInterviewPlan - Deterministic loop that passes checkInterviewPlan
+ */
+export function buildMockInterviewPlan(screening: ResumeScreening): InterviewPlan {
+  const newStage = (type: InterviewType, stageNumber: number): InterviewStage => ({
+    stage_number: stageNumber,
+    interview_type: type,
+    duration_minutes: interviewConfig.stageMinutes[type],
+    interviewer_role: STAGE_DETAILS[type].interviewer,
+    objective: STAGE_DETAILS[type].objective,
+    questions: []
+  });
+  const stages = STAGES_FOR_ACTION[screening.recommended_action].map((type, i) => newStage(type, i + 1));
+  const hasRoom = (stage: InterviewStage) => stage.questions.length < interviewConfig.maxQuestionsPerStage;
+
+  for (const target of requiredTargets(screening)) {
+    let stage = preferredStages(target, screening)
+      .map(type => stages.find(s => s.interview_type === type && hasRoom(s)))
+      .find(s => s !== undefined) ?? stages.find(hasRoom);
+    if (!stage) {
+      // Every stage is full: repeat the last stage type for the overflow
+      stage = newStage(stages[stages.length - 1].interview_type, stages.length + 1);
+      stages.push(stage);
+    }
+    stage.questions.push(mockQuestion(target));
+  }
+
+  // Stages without a gap to probe dig into a strength instead
+  stages.forEach((stage, i) => {
+    if (stage.questions.length === 0) {
+      const strength = screening.strengths[i % screening.strengths.length];
+      stage.questions.push(mockQuestion({ type: 'strength', text: strength, stepNumber: null }));
+    }
+  });
+
+  return { candidate_id: screening.candidate_id, job_id: screening.job_id, stages };
+}
@@ -0,0 +1,92 @@
+/**
+ * MockJobAnalysis.ts - Mock JobAnalysis Handler
+ *
+ * Pattern-based requirement parsing (context: job).
+ */
+
+import type { CompletionRequest } from './LLMProvider.js';
+import type { JobAnalysis, RequirementPriority } from './JobAnalysis.js';
+import type { JobDescription } from './examples/jobDescriptions.js';
+
+export function jobAnalysisHandler(request: CompletionRequest): JobAnalysis {
+  const job = request.context?.job as JobDescription | undefined;
+  if (!job) {
+    throw new Error('MockProvider requires job in the request context');
+  }
+  return buildMockJobAnalysis(job);
+}
+
+const SKILL_LEAD_IN = /^(?:(?:strong|basic|solid|working)\s+)?(?:proficiency|experience|understanding|knowledge|familiarity|expertise)\s+(?:in|with|of)\s+/i;
+
+/**
+ * Split a skill phrase into its options: "TypeScript or Python", "cloud platforms (AWS, GCP, or Azure)"
+ */
+function skillOptions(phrase: string): { all: string[]; any: string[] } {
+  const paren = phrase.match(/^(.*?)\s*\((.+)\)\s*$/);
+  if (paren) {
+    return { all: [], any: [paren[1].trim(), ...skillOptions(paren[2]).any] };
+  }
+  const parts = phrase.split(/\s*,\s*(?:and\s+|or\s+)?|\s+or\s+/).map(p => p.trim()).filter(p => p.length > 0);
+  // "HTML, CSS, and JavaScript" needs all of them; "AWS, GCP, or Azure" needs any
+  return /,/.test(phrase) && !/\bor\b/.test(phrase) ? { all: parts, any: [] } : { all: [], any: parts };
+}
+
+/**
+ * buildMockJobAnalysis - Pattern-based reading of the requirement strings
+ */
+export function buildMockJobAnalysis(job: JobDescription): JobAnalysis {
+  const analysis: JobAnalysis = {
+    job_id: job.jobId,
+    min_years_experience: null,
+    skills: [],
+    education: null,
+    certifications: [],
+    unclassified: []
+  };
+
+  const entries: Array<[string, RequirementPriority]> = [
+    ...job.requirements.required.map(text => [text, 'required'] as [string, RequirementPriority]),
+    ...job.requirements.preferred.map(text => [text, 'preferred'] as [string, RequirementPriority])
+  ];
+
+  for (const [text, priority] of entries) {
+    const years = text.match(/(\d+)\s*(?:\+|-\s*\d+)?\s*years?/i);
+    if (years && priority === 'required') {
+      const min = parseInt(years[1], 10);
+      analysis.min_years_experience = Math.max(analysis.min_years_experience ?? 0, min);
+      continue;
+    }
+
+    if (/degree|bachelor|master|diploma|phd|doctorate/i.test(text)) {
+      const field = text.match(/\bin\s+(.+?)(?:\s+or\s+equivalent.*)?$/i)?.[1];
+      analysis.education = {
+        min_degree: /phd|doctorate/i.test(text) ? 'doctorate' : /master/i.test(text) ? 'master' : 'bachelor',
+        fields: field ? [field] : [],
+        equivalent_experience_accepted: /equivalent/i.test(text),
+        priority
+      };
+      continue;
+    }
+
+    if (/certif/i.test(text)) {
+      analysis.certifications.push({ name: text.replace(/\s*certif\w*/i, '').trim() || text, priority });
+      continue;
+    }
+
+    // Skills are introduced by "Experience with ..." or name a technology ("... Git")
+    if (!SKILL_LEAD_IN.test(text) && !/\s[A-Z][A-Za-z0-9.+#]*/.test(text)) {
+      analysis.unclassified.push(text);
+      continue;
+    }
+
+    const { all, any } = skillOptions(text.replace(SKILL_LEAD_IN, '').trim());
+    for (const name of all) {
+      analysis.skills.push({ name, alternatives: [], priority, source_text: text });
+    }
+    if (any.length > 0) {
+      analysis.skills.push({ name: any[0], alternatives: any.slice(1), priority, source_text: text });
+    }
+  }
+
+  return analysis;
+}
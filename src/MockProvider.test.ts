@@ -0,0 +1,72 @@
+/**
+ * Offline Pipeline Tests (MockProvider)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { ResumeScreeningSchema } from './SGRSchema.js';
+import { createProvider } from './LLMProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('buildMockScreening', () => {
+  it('should produce schema-valid screenings for every sample resume', () => {
+    for (const resume of Object.values(sampleResumes)) {
+      const screening = buildMockScreening(resume, defaultJob);
+      expect(() => ResumeScreeningSchema.parse(screening)).not.toThrow();
+      expect(screening.candidate_id).toBe(resume.candidateId);
+      expect(screening.job_id).toBe(defaultJob.jobId);
+    }
+  });
+
+  it('should be deterministic', () => {
+    const a = buildMockScreening(sampleResumes.strongMatch, defaultJob);
+    const b = buildMockScreening(sampleResumes.strongMatch, defaultJob);
+    expect(a).toEqual(b);
+  });
+
+  it('should rank candidates by keyword overlap', () => {
+    const strong = buildMockScreening(sampleResumes.strongMatch, defaultJob);
+    const potential = buildMockScreening(sampleResumes.potentialFit, defaultJob);
+    const weak = buildMockScreening(sampleResumes.notQualified, defaultJob);
+
+    expect(strong.fit_score).toBeGreaterThan(potential.fit_score);
+    expect(potential.fit_score).toBeGreaterThan(weak.fit_score);
+    expect(strong.overall_fit).toBe('strong_match');
+    expect(weak.recommended_action).toBe('reject');
+  });
+});
+
+describe('runResumeScreening with MockProvider', () => {
+  it('should run the full pipeline without a network', async () => {
+    const result = await runResumeScreening(sampleResumes.strongMatch, defaultJob, {
+      provider: new MockProvider()
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.candidate_id).toBe('CAND-001');
+    expect(result.metadata?.model).toBe('mock-screener-1');
+    expect(result.metadata?.tokensUsed).toBeGreaterThan(0);
+  });
+
+  it('should surface malformed output as parse_error', async () => {
+    const provider = new MockProvider({ handlers: { ResumeScreening: () => '{not json' } });
+    const result = await runResumeScreening(sampleResumes.strongMatch, defaultJob, { provider });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('parse_error');
+    expect(result.rawResponse).toBe('{not json');
+  });
+
+  it('should load the mock on first use when created by name', async () => {
+    const provider = createProvider('mock');
+    const result = await runResumeScreening(sampleResumes.strongMatch, defaultJob, { provider });
+
+    expect(provider.name).toBe('mock');
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(buildMockScreening(sampleResumes.strongMatch, defaultJob));
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * MockProvider.ts - Deterministic Offline LLM Provider
+ *
+ * Answers CompletionRequests without a network by dispatching on the
+ * requested response format name. The built-in ResumeScreening handler
+ * derives a schema-valid screening from keyword overlap between the
+ * Resume and the JobDescription carried in the request context, so the
+ * full pipeline (prompting, parsing, validation) runs end-to-end in CI.
+ *
+ * Handlers (one module each):
+ * - ResumeScreening: keyword-overlap screening (MockScreening.ts)
+ * - ResumeExtraction: reads the formatResumeAsText layout (MockExtraction.ts)
+ * - CandidateEmail: template email per type (MockEmail.ts)
+ * - InterviewPlan: one question per screening finding (MockInterviewPlan.ts)
+ * - JobAnalysis: pattern-based requirement parsing (MockJobAnalysis.ts)
+ *
+ * stream() sends the same response in fixed-size chunks.
+ */
+
+import type { CompletionChunk, CompletionRequest, CompletionResponse, LLMProvider } from './LLMProvider.js';
+import { providerConfig } from './config.js';
+import { screeningHandler } from './MockScreening.js';
+import { extractionHandler } from './MockExtraction.js';
+import { emailHandler } from './MockEmail.js';
+import { interviewPlanHandler } from './MockInterviewPlan.js';
+import { jobAnalysisHandler } from './MockJobAnalysis.js';
+
+export { buildMockScreening } from './MockScreening.js';
+export { buildMockExtraction } from './MockExtraction.js';
+export { buildMockEmail } from './MockEmail.js';
+export { buildMockInterviewPlan } from './MockInterviewPlan.js';
+export { buildMockJobAnalysis } from './MockJobAnalysis.js';
+
+/**
+ * MockHandler - Produces the response for one response format name
+ *
+ * Returning a string sends it verbatim (useful for simulating malformed
+ * output); any other value is serialized with JSON.stringify.
+ */
+export type MockHandler = (request: CompletionRequest) => unknown | Promise<unknown>;
+
+export interface MockProviderOptions {
+  model?: string;
+  handlers?: Record<string, MockHandler>;
+  // Characters per streamed chunk (defaults to providerConfig.mockStreamChunkSize)
+  chunkSize?: number;
+}
+
+/**
+ * MockProvider - LLMProvider implementation backed by local handlers
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private readonly model: string;
+  private readonly handlers: Record<string, MockHandler>;
+  private readonly chunkSize: number;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.model = options.model ?? providerConfig.mockModel;
+    this.chunkSize = options.chunkSize ?? providerConfig.mockStreamChunkSize;
+    this.handlers = {
+      ResumeScreening: screeningHandler,
+      ResumeExtraction: extractionHandler,
+      CandidateEmail: emailHandler,
+      InterviewPlan: interviewPlanHandler,
+      JobAnalysis: jobAnalysisHandler,
+      ...options.handlers
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const handler = this.handlers[request.responseFormat.name];
+    if (!handler) {
+      throw new Error(`MockProvider has no handler for response format: ${request.responseFormat.name}`);
+    }
+
+    const output = await handler(request);
+    const content = typeof output === 'string' ? output : JSON.stringify(output);
+    const promptChars = request.messages.reduce((sum, m) => sum + m.content.length, 0);
+
+    return {
+      content,
+      model: this.model,
+      tokensUsed: estimateTokens(promptChars + content.length)
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+    const { content, model, tokensUsed } = await this.complete(request);
+    const text = content ?? '';
+    for (let i = 0; i < text.length; i += this.chunkSize) {
+      yield { delta: text.slice(i, i + this.chunkSize), model };
+    }
+    yield { delta: '', model, tokensUsed };
+  }
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+function estimateTokens(chars: number): number {
+  return Math.ceil(chars / 4);
+}
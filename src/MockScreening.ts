@@ -0,0 +1,410 @@
+/**
+ * MockScreening.ts - Mock ResumeScreening Handler
+ *
+ * Derives a schema-valid screening from keyword overlap between the Resume
+ * and the JobDescription in the request context (context: resume, job).
+ */
+
+import type { CompletionRequest } from './LLMProvider.js';
+import type {
+  ResumeScreening,
+  ScreeningStep,
+  ExtractedSkill,
+  WorkExperienceAnalysis,
+  EducationEntry,
+  DegreeType,
+  Relevance,
+  CandidateFit,
+  RecommendedAction,
+  ReviewFlag
+} from './SGRSchema.js';
+import { scoringConfig } from './config.js';
+import { fitBandForScore } from './SemanticValidation.js';
+import type { Resume } from './examples/resumes.js';
+import type { JobDescription } from './examples/jobDescriptions.js';
+
+export function screeningHandler(request: CompletionRequest): ResumeScreening {
+  const resume = request.context?.resume as Resume | undefined;
+  const job = request.context?.job as JobDescription | undefined;
+  if (!resume || !job) {
+    throw new Error('MockProvider requires resume and job in the request context');
+  }
+  return buildMockScreening(resume, job);
+}
+
+const STOPWORDS = new Set([
+  'and', 'the', 'for', 'with', 'or', 'of', 'in', 'to', 'a', 'an', 'on',
+  'experience', 'years', 'year', 'strong', 'understanding', 'proficiency',
+  'knowledge', 'familiarity', 'similar', 'basic', 'previous', 'equivalent',
+  'platforms', 'contributions'
+]);
+
+interface RequirementCheck {
+  text: string;
+  kind: 'years' | 'education' | 'keyword';
+  met: boolean;
+}
+
+interface ResumeProfile {
+  tokens: string[];
+  totalYears: number;
+  highestDegree: DegreeType;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9+#]+/).filter(t => t.length > 0);
+}
+
+function keywordsOf(text: string): string[] {
+  return tokenize(text).filter(t => t.length >= 2 && !STOPWORDS.has(t) && !/^\d/.test(t));
+}
+
+/**
+ * Prefix match so "mentorship" finds "mentored" and "architectures" finds "architecture"
+ */
+function hasToken(tokens: string[], keyword: string): boolean {
+  const stem = keyword.length > 5 ? keyword.slice(0, 5) : keyword;
+  return tokens.some(t => (keyword.length > 5 ? t.startsWith(stem) : t === keyword || t.startsWith(keyword)));
+}
+
+function mentions(text: string, phrase: string): boolean {
+  const escaped = phrase.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text.toLowerCase());
+}
+
+/**
+ * Parse "(3 years)", "(2.5 years)" or "(9 months)" from a duration string
+ */
+function parseDurationMonths(duration: string): number {
+  const years = duration.match(/(\d+(?:\.\d+)?)\s*years?/i);
+  if (years) return Math.round(parseFloat(years[1]) * 12);
+  const months = duration.match(/(\d+)\s*months?/i);
+  if (months) return parseInt(months[1], 10);
+  return 0;
+}
+
+function degreeTypeOf(degree: string, institution: string): DegreeType {
+  const text = `${degree} ${institution}`.toLowerCase();
+  if (/ph\.?d|doctor/.test(text)) return 'doctorate';
+  if (/^m\.|master|mba/.test(degree.toLowerCase())) return 'master';
+  if (/^b\.|bachelor/.test(degree.toLowerCase())) return 'bachelor';
+  if (/^a\.|associate/.test(degree.toLowerCase())) return 'associate';
+  if (/bootcamp/.test(text)) return 'bootcamp';
+  if (/certificat/.test(text)) return 'certification';
+  return 'high_school';
+}
+
+const DEGREE_RANK: DegreeType[] = [
+  'high_school', 'certification', 'bootcamp', 'associate', 'bachelor', 'master', 'doctorate'
+];
+
+function buildProfile(resume: Resume): ResumeProfile {
+  const corpus = [
+    resume.summary,
+    ...resume.skills,
+    ...(resume.certifications ?? []),
+    ...resume.experience.flatMap(e => [e.title, e.company, ...e.achievements]),
+    ...(resume.projects ?? []).flatMap(p => [p.name, p.description])
+  ].join(' ');
+
+  const totalMonths = resume.experience.reduce((sum, e) => sum + parseDurationMonths(e.duration), 0);
+  const highestDegree = resume.education
+    .map(e => degreeTypeOf(e.degree, e.institution))
+    .reduce<DegreeType>((best, d) => (DEGREE_RANK.indexOf(d) > DEGREE_RANK.indexOf(best) ? d : best), 'high_school');
+
+  return {
+    tokens: tokenize(corpus),
+    totalYears: Math.round((totalMonths / 12) * 10) / 10,
+    highestDegree
+  };
+}
+
+function checkRequirement(text: string, resume: Resume, profile: ResumeProfile): RequirementCheck {
+  const years = text.match(/(\d+)\s*(?:\+|-\s*\d+)?\s*years?/i);
+  if (years) {
+    return { text, kind: 'years', met: profile.totalYears >= parseInt(years[1], 10) };
+  }
+
+  if (/degree|bachelor|master|diploma/i.test(text)) {
+    const needed: DegreeType = /master/i.test(text) ? 'master' : 'bachelor';
+    return {
+      text,
+      kind: 'education',
+      met: DEGREE_RANK.indexOf(profile.highestDegree) >= DEGREE_RANK.indexOf(needed)
+    };
+  }
+
+  if (resume.skills.some(skill => mentions(text, skill))) {
+    return { text, kind: 'keyword', met: true };
+  }
+  const keywords = keywordsOf(text);
+  const found = keywords.filter(k => hasToken(profile.tokens, k)).length;
+  return { text, kind: 'keyword', met: keywords.length > 0 && found / keywords.length >= 0.5 };
+}
+
+const ACTION_FOR_FIT: Record<CandidateFit, RecommendedAction> = {
+  strong_match: 'advance_to_interview',
+  qualified: 'phone_screen_first',
+  potential_fit: 'hold_for_review',
+  not_qualified: 'reject'
+};
+
+function experienceLevelOf(years: number): ResumeScreening['experience_analysis']['experience_level'] {
+  if (years < 2) return 'entry';
+  if (years < 5) return 'mid';
+  if (years < 8) return 'senior';
+  if (years < 12) return 'lead';
+  return 'executive';
+}
+
+function careerProgressionOf(resume: Resume, totalYears: number): ResumeScreening['experience_analysis']['career_progression'] {
+  if (resume.experience.length < 2 || totalYears < 2) return 'early_career';
+  const senior = (title: string) => /senior|lead|principal|staff|head|manager/i.test(title);
+  const latest = resume.experience[0].title;
+  const earliest = resume.experience[resume.experience.length - 1].title;
+  if (senior(latest) && !senior(earliest)) return 'ascending';
+  if (senior(latest) === senior(earliest)) return 'lateral';
+  return 'mixed';
+}
+
+function skillEvidence(resume: Resume, skill: string): { count: number; source: string } {
+  let count = 0;
+  let source = 'Listed in the skills section of the resume';
+  for (const exp of resume.experience) {
+    for (const achievement of exp.achievements) {
+      if (mentions(achievement, skill)) {
+        if (count === 0) source = `${exp.title} at ${exp.company}: ${achievement}`;
+        count++;
+      }
+    }
+  }
+  for (const project of resume.projects ?? []) {
+    if (mentions(project.description, skill)) {
+      if (count === 0) source = `Project ${project.name}: ${project.description}`;
+      count++;
+    }
+  }
+  return { count, source };
+}
+
+/**
+ * buildMockScreening - Deterministic keyword-overlap screening
+ *
+ * Scores 75 points for required and 25 for preferred requirements met,
+ * then maps the score onto the configured fit bands.
+ */
+export function buildMockScreening(resume: Resume, job: JobDescription): ResumeScreening {
+  const profile = buildProfile(resume);
+  const required = job.requirements.required.map(r => checkRequirement(r, resume, profile));
+  const preferred = job.requirements.preferred.map(r => checkRequirement(r, resume, profile));
+
+  const ratio = (checks: RequirementCheck[]) =>
+    checks.length === 0 ? 1 : checks.filter(c => c.met).length / checks.length;
+
+  // Job-specific criteria replace the generic steps and drive the score by weight
+  const criteria = (job.screeningCriteria ?? []).map(criterion => ({
+    criterion,
+    check: checkRequirement(criterion.description, resume, profile)
+  }));
+  const totalWeight = criteria.reduce((sum, c) => sum + c.criterion.weight, 0);
+  const metWeight = criteria.filter(c => c.check.met).reduce((sum, c) => sum + c.criterion.weight, 0);
+  const fitScore = criteria.length > 0
+    ? Math.round((metWeight / totalWeight) * 100)
+    : Math.round(ratio(required) * 75 + ratio(preferred) * 25);
+  const overallFit = fitBandForScore(fitScore);
+
+  const jobText = [job.description, ...job.requirements.required, ...job.requirements.preferred].join('\n');
+  const requiredText = job.requirements.required.join('\n');
+  const matchedSkills = resume.skills.filter(s => mentions(requiredText, s));
+  const unmetRequired = required.filter(c => !c.met);
+
+  const technicalSkills: ExtractedSkill[] = resume.skills.map(skill => {
+    const { count, source } = skillEvidence(resume, skill);
+    return {
+      skill_name: skill,
+      proficiency_level: count >= 2 ? 'advanced' : count === 1 ? 'intermediate' : 'beginner',
+      years_experience: null,
+      evidence_source: source
+    };
+  });
+
+  const workHistory: WorkExperienceAnalysis[] = resume.experience.map(exp => {
+    const text = [exp.title, ...exp.achievements].join(' ');
+    const demonstrated = resume.skills.filter(s => mentions(text, s));
+    const jobHits = demonstrated.filter(s => mentions(jobText, s)).length +
+      keywordsOf(exp.title).filter(k => hasToken(tokenize(jobText), k)).length;
+    const relevance: Relevance = jobHits >= 2 ? 'highly_relevant' : jobHits === 1 ? 'somewhat_relevant' : 'not_relevant';
+    return {
+      company: exp.company,
+      role: exp.title,
+      duration_months: parseDurationMonths(exp.duration),
+      relevance,
+      key_achievements: exp.achievements.slice(0, 2),
+      skills_demonstrated: demonstrated
+    };
+  });
+
+  const relevantMonths = workHistory.reduce((sum, w) => {
+    if (w.relevance === 'highly_relevant') return sum + w.duration_months;
+    if (w.relevance === 'somewhat_relevant') return sum + w.duration_months / 2;
+    return sum;
+  }, 0);
+  const relevantYears = Math.min(profile.totalYears, Math.round((relevantMonths / 12) * 10) / 10);
+
+  const educationHistory: EducationEntry[] = resume.education.map(edu => {
+    const field = edu.degree.replace(/^[A-Z]\.[A-Z]\.\s*/, '');
+    return {
+      institution: edu.institution,
+      degree: edu.degree,
+      field_of_study: field,
+      graduation_year: edu.year ?? null,
+      relevance: /computer|software|engineering|web|development|data/i.test(field) ? 'highly_relevant' : 'somewhat_relevant'
+    };
+  });
+
+  const educationCheck = required.find(c => c.kind === 'education');
+  const yearsCheck = required.find(c => c.kind === 'years');
+  const skillChecks = required.filter(c => c.kind === 'keyword');
+  const latest = resume.experience[0];
+
+  const steps: ScreeningStep[] = criteria.length > 0 ? criteria.map(({ criterion, check }, i) => ({
+    step_number: i + 1,
+    evaluation_category: criterion.category,
+    requirement_met: check.met,
+    evidence: check.met
+      ? `Resume supports ${criterion.label}: ${criterion.description}`
+      : `Resume does not evidence ${criterion.label}: ${criterion.description}`,
+    gap_identified: check.met ? null : `Not evidenced: ${criterion.description}`,
+    criterion_id: criterion.id
+  })) : [
+    {
+      step_number: 1,
+      evaluation_category: 'technical_skills',
+      requirement_met: skillChecks.every(c => c.met),
+      evidence: matchedSkills.length > 0
+        ? `Resume lists required skills: ${matchedSkills.join(', ')}`
+        : `Resume skills (${resume.skills.join(', ')}) do not cover the required skills`,
+      gap_identified: skillChecks.every(c => c.met)
+        ? null
+        : `Not evidenced: ${skillChecks.filter(c => !c.met).map(c => c.text).join('; ')}`
+    },
+    {
+      step_number: 2,
+      evaluation_category: 'experience_level',
+      requirement_met: yearsCheck?.met ?? true,
+      evidence: latest
+        ? `${profile.totalYears} years across ${resume.experience.length} roles, most recently ${latest.title} at ${latest.company}`
+        : 'No professional experience is listed on the resume',
+      gap_identified: yearsCheck && !yearsCheck.met
+        ? `Requirement "${yearsCheck.text}" not met with ${profile.totalYears} years`
+        : null
+    },
+    {
+      step_number: 3,
+      evaluation_category: 'education',
+      requirement_met: educationCheck?.met ?? true,
+      evidence: resume.education.length > 0
+        ? `Education: ${resume.education.map(e => `${e.degree}, ${e.institution}`).join('; ')}`
+        : 'No education entries are listed on the resume',
+      gap_identified: educationCheck && !educationCheck.met
+        ? `Requirement "${educationCheck.text}" not met`
+        : null
+    }
+  ];
+
+  const metRequirements = [...required, ...preferred].filter(c => c.met);
+  const strengths = metRequirements.length > 0
+    ? metRequirements.map(c => `Meets requirement: ${c.text}`)
+    : [`Background: ${resume.summary.split(/\.\s/)[0].replace(/\s+/g, ' ').trim()}`];
+
+  return {
+    candidate_id: resume.candidateId,
+    job_id: job.jobId,
+    overall_fit: overallFit,
+    screening_steps: steps,
+    skills_analysis: {
+      technical_skills: technicalSkills,
+      soft_skills: [],
+      certifications: resume.certifications ?? [],
+      required_skills_matched: matchedSkills,
+      missing_required_skills: skillChecks.filter(c => !c.met).map(c => c.text)
+    },
+    experience_analysis: {
+      total_years: profile.totalYears,
+      relevant_years: relevantYears,
+      experience_level: experienceLevelOf(profile.totalYears),
+      career_progression: careerProgressionOf(resume, profile.totalYears),
+      work_history: workHistory
+    },
+    education_analysis: {
+      highest_degree: profile.highestDegree,
+      education_history: educationHistory,
+      meets_education_requirement: educationCheck?.met ?? true
+    },
+    fit_score: fitScore,
+    strengths,
+    concerns: unmetRequired.map(c => `Does not clearly meet: ${c.text}`),
+    recommended_action: ACTION_FOR_FIT[overallFit],
+    interview_focus_areas: [
+      ...unmetRequired.map(c => `Probe gap: ${c.text}`),
+      ...(latest ? [`Discuss recent work as ${latest.title} at ${latest.company}`] : [])
+    ],
+    review_flags: mockReviewFlags(resume, fitScore, profile.totalYears, yearsCheck)
+  };
+}
+
+/**
+ * Flags a careful reviewer would raise for the mock screening
+ */
+function mockReviewFlags(
+  resume: Resume,
+  fitScore: number,
+  totalYears: number,
+  yearsCheck: RequirementCheck | undefined
+): ReviewFlag[] {
+  const flags: ReviewFlag[] = [];
+  const overallFit = fitBandForScore(fitScore);
+
+  const nearest = Object.values(scoringConfig.thresholds)
+    .filter(t => t > 0)
+    .find(t => Math.abs(fitScore - t) <= 2);
+  if (nearest !== undefined) {
+    flags.push({
+      reason: 'edge_case',
+      priority: 'high',
+      explanation: `fit_score ${fitScore} is within 2 points of the ${nearest} band threshold`
+    });
+  }
+
+  if (overallFit === 'potential_fit') {
+    flags.push({
+      reason: 'underqualified_but_potential',
+      priority: 'medium',
+      explanation: `Scored ${fitScore} but meets some core requirements; worth a second look before deciding`
+    });
+  }
+
+  const requiredYears = yearsCheck ? parseInt(yearsCheck.text.match(/(\d+)/)?.[1] ?? '0', 10) : 0;
+  if (requiredYears > 0 && totalYears >= requiredYears * 2 + 2) {
+    flags.push({
+      reason: 'overqualified',
+      priority: 'low',
+      explanation: `${totalYears} years of experience against a requirement of ${requiredYears}; check level and compensation expectations`
+    });
+  }
+
+  const missing = [
+    ...(resume.experience.length === 0 ? ['experience'] : []),
+    ...(resume.education.length === 0 ? ['education'] : []),
+    ...(resume.skills.length === 0 ? ['skills'] : [])
+  ];
+  if (missing.length > 0) {
+    flags.push({
+      reason: 'incomplete_information',
+      priority: 'medium',
+      explanation: `Resume has no ${missing.join(', ')} section; the assessment may be incomplete`
+    });
+  }
+
+  return flags;
+}
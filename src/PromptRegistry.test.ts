@@ -0,0 +1,116 @@
+/**
+ * Prompt Registry Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PromptRegistry,
+  PromptTemplate,
+  PromptNotFoundError,
+  DuplicatePromptError,
+  PromptVariableError,
+  defaultScreeningPrompt,
+  buildPromptVariables,
+  renderPrompt,
+  interpolate,
+  compareVersions,
+  SCREENING_PROMPT_ID,
+  SCREENING_PROMPT_VERSION
+} from './PromptRegistry.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { CompletionRequest } from './LLMProvider.js';
+import { defaultJob, juniorFrontendDeveloper } from './examples/jobDescriptions.js';
+import { sampleResumes, formatResumeAsText } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const alex = sampleResumes.strongMatch;
+
+const frontendPrompt: PromptTemplate = {
+  ...defaultScreeningPrompt,
+  version: '1.1.0',
+  jobIds: [juniorFrontendDeveloper.jobId],
+  system: 'You screen junior frontend candidates. Weigh portfolios over years of experience.'
+};
+
+function recordingProvider(requests: CompletionRequest[]) {
+  const base = new MockProvider();
+  return {
+    name: 'recording',
+    complete: (request: CompletionRequest) => {
+      requests.push(request);
+      return base.complete(request);
+    }
+  };
+}
+
+describe('interpolate', () => {
+  it('should resolve dotted paths and render arrays as lists', () => {
+    const variables = buildPromptVariables(alex, defaultJob);
+    expect(interpolate('{{ resume.name }} for {{job.title}}', variables, 'test')).toBe(`Alex Chen for ${defaultJob.title}`);
+    expect(interpolate('{{resume.skills}}', variables, 'test').split('\n').slice(0, 2)).toEqual(['- TypeScript', '- Python']);
+    expect(variables.resumeText).toBe(formatResumeAsText(alex));
+    expect(() => interpolate('{{resume.age}}', variables, 'test')).toThrow(PromptVariableError);
+  });
+});
+
+describe('PromptRegistry', () => {
+  it('should return the latest version unless one is requested', () => {
+    const registry = new PromptRegistry([defaultScreeningPrompt, { ...defaultScreeningPrompt, version: '1.10.0' }, frontendPrompt]);
+
+    expect(registry.versions(SCREENING_PROMPT_ID)).toEqual(['1.0.0', '1.1.0', '1.10.0']);
+    expect(registry.get(SCREENING_PROMPT_ID).version).toBe('1.10.0');
+    expect(registry.get(SCREENING_PROMPT_ID, '1.0.0')).toBe(defaultScreeningPrompt);
+    expect(compareVersions('1.9.2', '1.10.0')).toBeLessThan(0);
+  });
+
+  it('should pick the template tuned for a job', () => {
+    const registry = new PromptRegistry([defaultScreeningPrompt, { ...frontendPrompt, id: 'frontend-screening' }]);
+
+    expect(registry.forJob(juniorFrontendDeveloper).id).toBe('frontend-screening');
+    expect(registry.forJob(defaultJob)).toBe(defaultScreeningPrompt);
+  });
+
+  it('should reject duplicates, unknown IDs and unknown variables', () => {
+    const registry = new PromptRegistry([defaultScreeningPrompt]);
+
+    expect(() => registry.register(defaultScreeningPrompt)).toThrow(DuplicatePromptError);
+    expect(() => registry.get('missing')).toThrow(PromptNotFoundError);
+    expect(() => registry.get(SCREENING_PROMPT_ID, '9.9.9')).toThrow(/resume-screening@9\.9\.9/);
+    expect(() => registry.register({ ...defaultScreeningPrompt, version: '2.0.0', user: '{{candidate.name}}' })).toThrow(PromptVariableError);
+  });
+});
+
+describe('renderPrompt', () => {
+  it('should send few-shot examples as user/assistant turns', () => {
+    const example = { resume: sampleResumes.potentialFit, job: defaultJob, screening: buildMockScreening(sampleResumes.potentialFit, defaultJob) };
+    const messages = renderPrompt({ ...defaultScreeningPrompt, fewShotExamples: [example] }, buildPromptVariables(alex, defaultJob));
+
+    expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[1].content).toContain('Candidate ID: CAND-002');
+    expect(JSON.parse(messages[2].content)).toEqual(example.screening);
+    expect(messages[3].content).toContain('Candidate ID: CAND-001');
+  });
+});
+
+describe('runResumeScreening prompts', () => {
+  it('should stamp the prompt ID and version into metadata', async () => {
+    const result = await runResumeScreening(alex, defaultJob, { provider: new MockProvider() });
+    expect(result.metadata).toMatchObject({ promptId: SCREENING_PROMPT_ID, promptVersion: SCREENING_PROMPT_VERSION });
+  });
+
+  it('should use the registry pick for the job, or an explicit template', async () => {
+    const requests: CompletionRequest[] = [];
+    const provider = recordingProvider(requests);
+    const promptRegistry = new PromptRegistry([defaultScreeningPrompt, frontendPrompt]);
+
+    const tuned = await runResumeScreening(alex, juniorFrontendDeveloper, { provider, promptRegistry });
+    expect(tuned.metadata?.promptVersion).toBe('1.1.0');
+    expect(requests[0].messages[0].content).toBe(frontendPrompt.system);
+
+    const pinned = await runResumeScreening(alex, juniorFrontendDeveloper, { provider, promptRegistry, prompt: { id: SCREENING_PROMPT_ID, version: '1.0.0' } });
+    expect(pinned.metadata?.promptVersion).toBe('1.0.0');
+    expect(requests[1].messages[0].content).toBe(defaultScreeningPrompt.system);
+  });
+});
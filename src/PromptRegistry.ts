@@ -0,0 +1,340 @@
+/**
+ * PromptRegistry.ts - Named, Versioned Screening Prompts
+ *
+ * Prompts are registered as templates instead of living inline in
+ * runResumeScreening, so they can be tuned per role and every result can
+ * be traced to the exact prompt that produced it (metadata.promptId and
+ * metadata.promptVersion).
+ *
+ * Templates interpolate {{variable}} placeholders over the screening
+ * inputs, e.g. {{job.title}}, {{resume.candidateId}}, {{resumeText}}.
+ * Arrays render as "- item" lines. A template may also carry few-shot
+ * examples, sent as user/assistant turns before the real request.
+ *
+ *   defaultPromptRegistry.register({
+ *     ...defaultPromptRegistry.get(SCREENING_PROMPT_ID),
+ *     version: '1.1.0',
+ *     jobIds: ['JOB-002'],
+ *     system: 'You are screening junior frontend candidates...'
+ *   });
+ */
+
+import { ChatMessage } from './LLMProvider.js';
+import { ResumeScreening } from './SGRSchema.js';
+import { formatCriteriaForPrompt } from './ScreeningCriteria.js';
+import { Resume, formatResumeAsText } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+/**
+ * FewShotExample - A worked screening shown to the model before the real one
+ */
+export interface FewShotExample {
+  resume: Resume;
+  job: JobDescription;
+  screening: ResumeScreening;
+  // Prompt text for the resume (defaults to formatResumeAsText; set for redacted examples)
+  resumeText?: string;
+}
+
+/**
+ * PromptTemplate - One version of a named prompt
+ */
+export interface PromptTemplate {
+  id: string;
+  // Dotted numeric version, e.g. "1.2.0"
+  version: string;
+  description?: string;
+  system: string;
+  user: string;
+  // Jobs this template is tuned for (used by forJob)
+  jobIds?: string[];
+  // Worked examples sent before the request (none if omitted)
+  fewShotExamples?: FewShotExample[];
+}
+
+/**
+ * PromptVariables - Values available to {{placeholders}}
+ */
+export interface PromptVariables {
+  resume: Resume;
+  job: JobDescription;
+  // formatResumeAsText output (redacted when redaction is on)
+  resumeText: string;
+  // Required and preferred requirements as an indented list
+  jobRequirements: string;
+  // Screening criteria block, or empty when the job declares none
+  criteriaSection: string;
+}
+
+export const PROMPT_VARIABLES: Array<keyof PromptVariables> = ['resume', 'job', 'resumeText', 'jobRequirements', 'criteriaSection'];
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * PromptRegistryError - Base class for prompt registry failures
+ */
+export class PromptRegistryError extends Error {
+  constructor(message: string, readonly promptId: string) {
+    super(message);
+    this.name = 'PromptRegistryError';
+  }
+}
+
+/**
+ * PromptNotFoundError - No template with this ID (and version) is registered
+ */
+export class PromptNotFoundError extends PromptRegistryError {
+  constructor(promptId: string, readonly version?: string) {
+    super(`Prompt ${promptId}${version ? `@${version}` : ''} is not registered`, promptId);
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+/**
+ * DuplicatePromptError - The ID and version are already registered
+ */
+export class DuplicatePromptError extends PromptRegistryError {
+  constructor(promptId: string, readonly version: string) {
+    super(`Prompt ${promptId}@${version} is already registered; bump the version`, promptId);
+    this.name = 'DuplicatePromptError';
+  }
+}
+
+/**
+ * PromptVariableError - A placeholder does not resolve to a value
+ */
+export class PromptVariableError extends PromptRegistryError {
+  constructor(promptId: string, readonly variable: string) {
+    super(`Prompt ${promptId} uses unknown variable {{${variable}}}`, promptId);
+    this.name = 'PromptVariableError';
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Render a requirement list as the prompt shows it
+ */
+export function formatJobRequirements(job: JobDescription): string {
+  return [
+    'Required:',
+    ...job.requirements.required.map(r => `  - ${r}`),
+    'Preferred:',
+    ...job.requirements.preferred.map(r => `  - ${r}`)
+  ].join('\n');
+}
+
+/**
+ * buildPromptVariables - Variables for one screening
+ *
+ * @param resume - Resume as the model should see it (redacted if applicable)
+ * @param job - Job to screen against
+ * @param resumeText - Prompt text for the resume (defaults to formatResumeAsText)
+ */
+export function buildPromptVariables(resume: Resume, job: JobDescription, resumeText?: string): PromptVariables {
+  const criteria = job.screeningCriteria ?? [];
+  return {
+    resume,
+    job,
+    resumeText: resumeText ?? formatResumeAsText(resume),
+    jobRequirements: formatJobRequirements(job),
+    criteriaSection: criteria.length > 0
+      ? `\n## Screening Criteria (exactly one screening step per criterion, in this order, with criterion_id set):\n${formatCriteriaForPrompt(criteria)}\n`
+      : ''
+  };
+}
+
+function lookup(variables: PromptVariables, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    variables
+  );
+}
+
+function renderValue(value: unknown): string {
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.map(item => `- ${renderValue(item)}`).join('\n');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * interpolate - Replace {{placeholders}} in a template string
+ *
+ * @throws PromptVariableError if a placeholder does not resolve
+ */
+export function interpolate(text: string, variables: PromptVariables, promptId: string): string {
+  return text.replace(PLACEHOLDER, (_, path: string) => {
+    const value = lookup(variables, path);
+    if (value === undefined) throw new PromptVariableError(promptId, path);
+    return renderValue(value);
+  });
+}
+
+/**
+ * renderPrompt - Chat messages for a template: system, few-shot turns, request
+ *
+ * Few-shot inputs are rendered with the template's own user prompt, so the
+ * examples look exactly like the real request.
+ *
+ * @param template - Template to render
+ * @param variables - Values for the real request
+ * @param examples - Few-shot examples (defaults to template.fewShotExamples)
+ */
+export function renderPrompt(
+  template: PromptTemplate,
+  variables: PromptVariables,
+  examples: FewShotExample[] = template.fewShotExamples ?? []
+): ChatMessage[] {
+  const shots = examples.flatMap<ChatMessage>(example => [
+    { role: 'user', content: interpolate(template.user, buildPromptVariables(example.resume, example.job, example.resumeText), template.id) },
+    { role: 'assistant', content: JSON.stringify(example.screening) }
+  ]);
+
+  return [
+    { role: 'system', content: interpolate(template.system, variables, template.id) },
+    ...shots,
+    { role: 'user', content: interpolate(template.user, variables, template.id) }
+  ];
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Compare dotted numeric versions ("1.10.0" > "1.9.2")
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * PromptRegistry - Templates by ID and version
+ */
+export class PromptRegistry {
+  private readonly templates = new Map<string, PromptTemplate[]>();
+
+  constructor(templates: PromptTemplate[] = []) {
+    templates.forEach(t => this.register(t));
+  }
+
+  /**
+   * Add a template version
+   *
+   * @throws DuplicatePromptError if this ID and version exist
+   * @throws PromptVariableError if a placeholder names an unknown variable
+   */
+  register(template: PromptTemplate): void {
+    const versions = this.templates.get(template.id) ?? [];
+    if (versions.some(t => t.version === template.version)) {
+      throw new DuplicatePromptError(template.id, template.version);
+    }
+
+    for (const text of [template.system, template.user]) {
+      for (const [, path] of text.matchAll(PLACEHOLDER)) {
+        const root = path.split('.')[0];
+        if (!PROMPT_VARIABLES.includes(root as keyof PromptVariables)) throw new PromptVariableError(template.id, path);
+      }
+    }
+
+    versions.push(template);
+    versions.sort((a, b) => compareVersions(a.version, b.version));
+    this.templates.set(template.id, versions);
+  }
+
+  /**
+   * A specific version, or the latest when version is omitted
+   *
+   * @throws PromptNotFoundError if not registered
+   */
+  get(id: string, version?: string): PromptTemplate {
+    const versions = this.templates.get(id) ?? [];
+    const template = version === undefined ? versions[versions.length - 1] : versions.find(t => t.version === version);
+    if (!template) throw new PromptNotFoundError(id, version);
+    return template;
+  }
+
+  /**
+   * Registered versions of a template, oldest first
+   */
+  versions(id: string): string[] {
+    return (this.templates.get(id) ?? []).map(t => t.version);
+  }
+
+  /**
+   * Latest template tuned for this job, falling back to the latest default
+   */
+  forJob(job: JobDescription, fallbackId: string = SCREENING_PROMPT_ID): PromptTemplate {
+    const tuned = [...this.templates.values()]
+      .flat()
+      .filter(t => t.jobIds?.includes(job.jobId))
+      .sort((a, b) => compareVersions(a.version, b.version));
+    return tuned[tuned.length - 1] ?? this.get(fallbackId);
+  }
+}
+
+// ============================================================================
+// Default Screening Prompt
+// ============================================================================
+
+export const SCREENING_PROMPT_ID = 'resume-screening';
+
+/**
+ * Version of the default screening prompt; bump when the prompt or schema
+ * changes so stored screenings can be compared like for like
+ */
+export const SCREENING_PROMPT_VERSION = '1.0.0';
+
+export const defaultScreeningPrompt: PromptTemplate = {
+  id: SCREENING_PROMPT_ID,
+  version: SCREENING_PROMPT_VERSION,
+  description: 'General-purpose Schema-Guided Reasoning screening prompt',
+  system: `You are an expert HR recruiter screening resumes. You must analyze resumes against job requirements and provide structured screening assessments.
+
+Your response MUST follow Schema-Guided Reasoning:
+1. Evaluate technical skills against requirements (with specific evidence)
+2. Assess experience level and relevance (with specific evidence)
+3. Review education background (with specific evidence)
+4. Identify at least 3 screening steps with detailed evidence from the resume (or exactly one per screening criterion when the job declares them)
+5. Provide an overall fit assessment
+6. Recommend a specific next action
+7. Add review_flags when a human should double-check the recommendation (e.g. overqualified, career changer, incomplete information, borderline score)
+
+Be thorough and cite specific details from the resume as evidence.`,
+  user: `
+Analyze the following resume against the job requirements.
+
+## Job: {{job.title}}
+{{job.description}}
+
+## Requirements:
+{{jobRequirements}}
+{{criteriaSection}}
+## Resume:
+{{resumeText}}
+
+---
+Candidate ID: {{resume.candidateId}}
+Job ID: {{job.jobId}}
+
+Provide your screening analysis as a JSON object. Be thorough and cite specific evidence from the resume.
+`
+};
+
+/**
+ * Registry used by runResumeScreening unless another is passed
+ */
+export const defaultPromptRegistry = new PromptRegistry([defaultScreeningPrompt]);
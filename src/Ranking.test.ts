@@ -0,0 +1,67 @@
+/**
+ * Ranking Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rankCandidates, buildShortlist } from './Ranking.js';
+import { ResumeScreening, exampleResumeScreening } from './SGRSchema.js';
+
+function screening(candidateId: string, overrides: {
+  fitScore?: number;
+  missing?: string[];
+  relevantYears?: number;
+  stepsMet?: boolean[];
+} = {}): ResumeScreening {
+  return {
+    ...exampleResumeScreening,
+    candidate_id: candidateId,
+    fit_score: overrides.fitScore ?? 85,
+    skills_analysis: {
+      ...exampleResumeScreening.skills_analysis,
+      missing_required_skills: overrides.missing ?? []
+    },
+    experience_analysis: {
+      ...exampleResumeScreening.experience_analysis,
+      relevant_years: overrides.relevantYears ?? 5
+    },
+    screening_steps: exampleResumeScreening.screening_steps.map((step, i) => ({
+      ...step,
+      requirement_met: overrides.stepsMet?.[i] ?? true
+    }))
+  };
+}
+
+describe('rankCandidates', () => {
+  it('should apply tie-breakers in order', () => {
+    const ranked = rankCandidates([
+      screening('D', { fitScore: 85, stepsMet: [true, false, true] }),
+      screening('B', { fitScore: 85, missing: ['Go'] }),
+      screening('A', { fitScore: 90 }),
+      screening('C', { fitScore: 85, relevantYears: 3 }),
+      screening('E', { fitScore: 85 })
+    ]);
+
+    expect(ranked.map(r => r.candidateId)).toEqual(['A', 'E', 'D', 'C', 'B']);
+    expect(ranked.map(r => r.rank)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should refuse to mix jobs', () => {
+    const other = { ...screening('B'), job_id: 'JOB-OTHER' };
+    expect(() => rankCandidates([screening('A'), other])).toThrow('across jobs');
+  });
+});
+
+describe('buildShortlist', () => {
+  it('should keep the top N and name the deciding factor', () => {
+    const shortlist = buildShortlist([
+      screening('A', { fitScore: 85, relevantYears: 6 }),
+      screening('B', { fitScore: 85, relevantYears: 4 }),
+      screening('C', { fitScore: 50 })
+    ], 2);
+
+    expect(shortlist.considered).toBe(3);
+    expect(shortlist.entries.map(e => e.candidateId)).toEqual(['A', 'B']);
+    expect(shortlist.entries[0].justification).toContain('Ranked above B on more relevant experience (6 vs 4 years)');
+    expect(shortlist.entries[1].justification).toContain('Ranked above C on higher fit score (85 vs 50)');
+  });
+});
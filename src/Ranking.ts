@@ -0,0 +1,181 @@
+/**
+ * Ranking.ts - Candidate Ranking and Shortlisting
+ *
+ * Compares many ResumeScreening results for the same job and orders them.
+ * fit_score decides first; ties are broken by structured evidence from the
+ * SGR output rather than by arrival order:
+ *
+ * 1. fit_score (higher first)
+ * 2. skills_analysis.missing_required_skills count (fewer first)
+ * 3. experience_analysis.relevant_years (more first)
+ * 4. screening_steps with requirement_met (more first)
+ * 5. candidate_id (stable, alphabetical)
+ */
+
+import { ResumeScreening } from './SGRSchema.js';
+import { rankingConfig } from './config.js';
+
+/**
+ * RankedCandidate - A screening with its position and tie-break inputs
+ */
+export interface RankedCandidate {
+  rank: number;
+  candidateId: string;
+  fitScore: number;
+  missingRequiredSkills: number;
+  relevantYears: number;
+  requirementsMet: number;
+  totalSteps: number;
+  screening: ResumeScreening;
+}
+
+/**
+ * ShortlistEntry - One shortlisted candidate and why they hold that position
+ */
+export interface ShortlistEntry {
+  rank: number;
+  candidateId: string;
+  fitScore: number;
+  overallFit: ResumeScreening['overall_fit'];
+  recommendedAction: ResumeScreening['recommended_action'];
+  justification: string;
+}
+
+/**
+ * Shortlist - Top-N candidates for a job
+ */
+export interface Shortlist {
+  jobId: string;
+  considered: number;
+  entries: ShortlistEntry[];
+}
+
+type RankingKeys = Omit<RankedCandidate, 'rank'>;
+
+function toRankingKeys(screening: ResumeScreening): RankingKeys {
+  return {
+    candidateId: screening.candidate_id,
+    fitScore: screening.fit_score,
+    missingRequiredSkills: screening.skills_analysis.missing_required_skills.length,
+    relevantYears: screening.experience_analysis.relevant_years,
+    requirementsMet: screening.screening_steps.filter(s => s.requirement_met).length,
+    totalSteps: screening.screening_steps.length,
+    screening
+  };
+}
+
+/**
+ * Ordered tie-break criteria: comparator plus a human description of the difference
+ */
+const CRITERIA: Array<{
+  compare: (a: RankingKeys, b: RankingKeys) => number;
+  describe: (a: RankingKeys, b: RankingKeys) => string;
+}> = [
+  {
+    compare: (a, b) => b.fitScore - a.fitScore,
+    describe: (a, b) => `higher fit score (${a.fitScore} vs ${b.fitScore})`
+  },
+  {
+    compare: (a, b) => a.missingRequiredSkills - b.missingRequiredSkills,
+    describe: (a, b) => `fewer missing required skills (${a.missingRequiredSkills} vs ${b.missingRequiredSkills})`
+  },
+  {
+    compare: (a, b) => b.relevantYears - a.relevantYears,
+    describe: (a, b) => `more relevant experience (${a.relevantYears} vs ${b.relevantYears} years)`
+  },
+  {
+    compare: (a, b) => b.requirementsMet - a.requirementsMet,
+    describe: (a, b) => `more screening requirements met (${a.requirementsMet} vs ${b.requirementsMet})`
+  },
+  {
+    compare: (a, b) => a.candidateId.localeCompare(b.candidateId),
+    describe: () => 'an identical profile (ordered by candidate ID)'
+  }
+];
+
+function compareKeys(a: RankingKeys, b: RankingKeys): number {
+  for (const criterion of CRITERIA) {
+    const result = criterion.compare(a, b);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+/**
+ * Describe the first criterion that separates a (ranked above) from b
+ */
+function decidingFactor(a: RankingKeys, b: RankingKeys): string {
+  const criterion = CRITERIA.find(c => c.compare(a, b) !== 0) ?? CRITERIA[CRITERIA.length - 1];
+  return criterion.describe(a, b);
+}
+
+/**
+ * compareScreenings - Sort comparator (best candidate first)
+ */
+export function compareScreenings(a: ResumeScreening, b: ResumeScreening): number {
+  return compareKeys(toRankingKeys(a), toRankingKeys(b));
+}
+
+/**
+ * rankCandidates - Order screenings for a single job, best first
+ *
+ * @param screenings - Screenings that all share the same job_id
+ * @throws Error if screenings belong to different jobs
+ */
+export function rankCandidates(screenings: ResumeScreening[]): RankedCandidate[] {
+  const jobIds = new Set(screenings.map(s => s.job_id));
+  if (jobIds.size > 1) {
+    throw new Error(`Cannot rank screenings across jobs: ${[...jobIds].join(', ')}`);
+  }
+
+  return screenings
+    .map(toRankingKeys)
+    .sort(compareKeys)
+    .map((keys, index) => ({ rank: index + 1, ...keys }));
+}
+
+/**
+ * buildShortlist - Top-N candidates with a justification for each position
+ *
+ * Each justification summarizes the candidate's ranking inputs and names the
+ * criterion that placed them above the next-ranked candidate.
+ *
+ * @param screenings - Screenings that all share the same job_id
+ * @param topN - Shortlist size (defaults to rankingConfig.shortlistSize)
+ */
+export function buildShortlist(
+  screenings: ResumeScreening[],
+  topN: number = rankingConfig.shortlistSize
+): Shortlist {
+  const ranked = rankCandidates(screenings);
+  const shortlisted = ranked.slice(0, Math.max(0, topN));
+
+  const entries = shortlisted.map((candidate, index): ShortlistEntry => {
+    const summary = [
+      `fit score ${candidate.fitScore} (${candidate.screening.overall_fit})`,
+      `${candidate.missingRequiredSkills} missing required skill${candidate.missingRequiredSkills === 1 ? '' : 's'}`,
+      `${candidate.relevantYears} relevant years`,
+      `${candidate.requirementsMet}/${candidate.totalSteps} screening steps met`
+    ].join('; ');
+
+    const next = ranked[index + 1];
+    const comparison = next
+      ? ` Ranked above ${next.candidateId} on ${decidingFactor(candidate, next)}.`
+      : '';
+
+    return {
+      rank: candidate.rank,
+      candidateId: candidate.candidateId,
+      fitScore: candidate.fitScore,
+      overallFit: candidate.screening.overall_fit,
+      recommendedAction: candidate.screening.recommended_action,
+      justification: `#${candidate.rank}: ${summary}.${comparison}`
+    };
+  });
+
+  return {
+    jobId: screenings[0]?.job_id ?? '',
+    considered: screenings.length,
+    entries
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Redaction Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { redactResume, restoreScreening } from './Redaction.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { CompletionRequest } from './LLMProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes, formatResumeAsText } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const alex = sampleResumes.strongMatch;
+const jordan = sampleResumes.potentialFit;
+
+describe('redactResume', () => {
+  it('should replace identifying fields with stable pseudonyms', () => {
+    const redacted = redactResume(jordan, { enabled: true });
+
+    expect(redacted.resume.name).toMatch(/^Candidate [0-9A-F]{6}$/);
+    expect(redacted.resume.email).toMatch(/^candidate-[0-9a-f]{6}@example\.com$/);
+    expect(redacted.resume.education.map(e => e.institution)).toEqual(['University A', 'Bootcamp B']);
+    expect(redactResume(jordan).resume).toEqual(redacted.resume);
+    expect(redacted.resume.candidateId).toBe(jordan.candidateId);
+
+    for (const value of [jordan.name, jordan.email, jordan.phone!, 'State University', 'CodeCamp']) {
+      expect(redacted.text).not.toContain(value);
+    }
+    expect(redacted.text).toContain('- B.A. Economics, University A\n');
+  });
+
+  it('should report every masked field and free-text mention', () => {
+    const resume = { ...alex, summary: `${alex.summary} Alex is open to relocation.` };
+    const { report, resume: redacted } = redactResume(resume);
+
+    expect(report.masked.map(m => m.field)).toEqual(['name', 'email', 'phone', 'institution', 'graduation_year']);
+    expect(report.masked[4]).toEqual({ path: ['education', 0, 'year'], field: 'graduation_year', pseudonym: null });
+    expect(report.textReplacements).toBe(1);
+    expect(redacted.summary).toContain(`${redacted.name} is open to relocation`);
+  });
+
+  it('should only replace name parts written as names', () => {
+    const resume = {
+      ...alex,
+      name: 'Grant Will Mark',
+      summary: 'Grant wrote a grant proposal, will mark releases, and Mark reviews them. GRANT WILL MARK'
+    };
+    const { resume: redacted, report } = redactResume(resume);
+
+    expect(redacted.summary).toBe(
+      `${redacted.name} wrote a grant proposal, will mark releases, and ${redacted.name} reviews them. ${redacted.name}`
+    );
+    expect(report.textReplacements).toBe(3);
+  });
+
+  it('should leave fields that are switched off', () => {
+    const redacted = redactResume(alex, { institutions: false, graduationYears: false });
+
+    expect(redacted.resume.education).toEqual(alex.education);
+    expect(redacted.text).toContain('University of California, Berkeley, 2016');
+    expect(redacted.report.masked.map(m => m.field)).toEqual(['name', 'email', 'phone']);
+  });
+});
+
+describe('restoreScreening', () => {
+  it('should map pseudonyms back and refill graduation years', () => {
+    const redacted = redactResume(jordan);
+    const screening = buildMockScreening(redacted.resume, defaultJob);
+    const blind = {
+      ...screening,
+      strengths: [`${redacted.resume.name} finished Bootcamp B recently`, ...screening.strengths],
+      education_analysis: {
+        ...screening.education_analysis,
+        education_history: screening.education_analysis.education_history.map(e => ({ ...e, graduation_year: null }))
+      }
+    };
+
+    const restored = restoreScreening(blind, redacted);
+    expect(restored.strengths[0]).toBe('Jordan Martinez finished CodeCamp Bootcamp recently');
+    expect(restored.education_analysis.education_history.map(e => [e.institution, e.graduation_year])).toEqual([
+      ['State University', 2018],
+      ['CodeCamp Bootcamp', 2023]
+    ]);
+  });
+});
+
+describe('runResumeScreening with redaction', () => {
+  it('should send only redacted text and return real values', async () => {
+    const requests: CompletionRequest[] = [];
+    const base = new MockProvider();
+    const recording = {
+      name: 'recording',
+      complete: (request: CompletionRequest) => {
+        requests.push(request);
+        return base.complete(request);
+      }
+    };
+
+    const result = await runResumeScreening(jordan, defaultJob, { provider: recording, redaction: { enabled: true } });
+    const prompt = requests[0].messages.map(m => m.content).join('\n');
+
+    expect(prompt).not.toContain('Jordan');
+    expect(prompt).not.toContain('State University');
+    expect(result.success).toBe(true);
+    expect(result.redaction?.masked).toHaveLength(7);
+    expect(result.data?.education_analysis.education_history.map(e => e.institution)).toEqual(['State University', 'CodeCamp Bootcamp']);
+    expect(result.grounding?.unknownSkills).toEqual([]);
+  });
+
+  it('should be off by default', async () => {
+    const result = await runResumeScreening(alex, defaultJob, { provider: new MockProvider() });
+    expect(result.redaction).toBeUndefined();
+    expect(formatResumeAsText(alex)).toContain(alex.name);
+  });
+});
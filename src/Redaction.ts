@@ -0,0 +1,252 @@
+/**
+ * Redaction.ts - Pseudonymize Resumes Before They Reach the Model
+ *
+ * formatResumeAsText puts the candidate's name, email, phone, schools and
+ * graduation years into the prompt. These invite name, age and school bias
+ * and send PII to a third party, while contributing nothing to the
+ * screening. redactResume replaces them with stable pseudonyms derived
+ * from the candidateId (so re-screens see the same pseudonyms):
+ *
+ *   "Alex Chen"                           -> "Candidate 3F9A1C"
+ *   "alex.chen@email.com"                 -> "candidate-3f9a1c@example.com"
+ *   "University of California, Berkeley"  -> "University A"
+ *
+ * Graduation years are left out of the prompt entirely. restoreScreening
+ * maps the pseudonyms in the returned ResumeScreening back to the real
+ * values, so downstream code never sees them.
+ */
+
+import { createHash } from 'node:crypto';
+import { ResumeScreening } from './SGRSchema.js';
+import { redactionConfig } from './config.js';
+import { Resume, formatResumeAsText } from './examples/resumes.js';
+
+/**
+ * RedactionOptions - Which resume fields to mask
+ */
+export interface RedactionOptions {
+  // Whether screenings redact at all
+  enabled: boolean;
+  name: boolean;
+  email: boolean;
+  phone: boolean;
+  institutions: boolean;
+  graduationYears: boolean;
+}
+
+/**
+ * Merge per-call overrides onto the configured defaults
+ */
+export function resolveRedactionOptions(overrides: Partial<RedactionOptions> = {}): RedactionOptions {
+  return { ...redactionConfig, ...overrides };
+}
+
+export type RedactedField = 'name' | 'email' | 'phone' | 'institution' | 'graduation_year';
+
+/**
+ * MaskedField - One resume field hidden from the model
+ */
+export interface MaskedField {
+  path: (string | number)[];
+  field: RedactedField;
+  // Replacement the model saw (null when the value was left out)
+  pseudonym: string | null;
+}
+
+/**
+ * RedactionReport - What was masked for one screening
+ */
+export interface RedactionReport {
+  masked: MaskedField[];
+  // Masked values also found (and replaced) in free text, e.g. the name in the summary
+  textReplacements: number;
+}
+
+/**
+ * RedactedResume - Pseudonymized resume plus what is needed to undo it
+ */
+export interface RedactedResume {
+  resume: Resume;
+  // Prompt text for the redacted resume
+  text: string;
+  report: RedactionReport;
+  // [real value, pseudonym] pairs
+  pseudonyms: Array<[string, string]>;
+  // Real graduation years, by education entry (when they were masked)
+  graduationYears: Array<number | undefined> | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const INSTITUTION_KINDS = ['University', 'College', 'Bootcamp', 'Academy', 'Institute', 'School'];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Short stable code for a candidate, so pseudonyms survive re-screens
+ */
+function candidateCode(candidateId: string): string {
+  return createHash('sha256').update(candidateId).digest('hex').slice(0, 6).toUpperCase();
+}
+
+/**
+ * Replace whole-word occurrences of each key (longest first); returns the text and count
+ */
+function replaceTerms(text: string, terms: Map<string, string>, ignoreCase: boolean): [string, number] {
+  if (terms.size === 0) return [text, 0];
+  const keys = [...terms.keys()].sort((a, b) => b.length - a.length);
+  const lookup = new Map([...terms].map(([k, v]) => [ignoreCase ? k.toLowerCase() : k, v]));
+  const pattern = new RegExp(`(?<![A-Za-z0-9])(?:${keys.map(escapeRegExp).join('|')})(?![A-Za-z0-9])`, ignoreCase ? 'gi' : 'g');
+
+  let count = 0;
+  const replaced = text.replace(pattern, match => {
+    count++;
+    return lookup.get(ignoreCase ? match.toLowerCase() : match) ?? match;
+  });
+  return [replaced, count];
+}
+
+/**
+ * Apply fn to every string inside a JSON-like value
+ */
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') return fn(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn)) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)])) as T;
+  }
+  return value;
+}
+
+// ============================================================================
+// Redact / Restore
+// ============================================================================
+
+/**
+ * redactResume - Replace identifying fields with stable pseudonyms
+ *
+ * @param resume - Resume to redact (not modified)
+ * @param overrides - Which fields to mask (defaults to redactionConfig)
+ * @returns Redacted resume, its prompt text and the masking report
+ */
+export function redactResume(resume: Resume, overrides: Partial<RedactionOptions> = {}): RedactedResume {
+  const options = resolveRedactionOptions(overrides);
+  const code = candidateCode(resume.candidateId);
+  const masked: MaskedField[] = [];
+  const pseudonyms: Array<[string, string]> = [];
+  // Terms replaced in free text, in any case: every masked value
+  const forward = new Map<string, string>();
+  // Name parts, only as capitalized words ("Grant" -> "Candidate 3F9A1C", but not "grant")
+  const nameParts = new Map<string, string>();
+
+  const mask = (path: (string | number)[], field: RedactedField, value: string, pseudonym: string) => {
+    masked.push({ path, field, pseudonym });
+    if (!pseudonyms.some(([real]) => real === value)) pseudonyms.push([value, pseudonym]);
+    forward.set(value, pseudonym);
+  };
+
+  if (options.name) {
+    const pseudonym = `Candidate ${code}`;
+    mask(['name'], 'name', resume.name, pseudonym);
+    for (const part of resume.name.split(/\s+/).filter(p => p.length >= 2)) {
+      nameParts.set(part[0].toUpperCase() + part.slice(1), pseudonym);
+    }
+  }
+  if (options.email) mask(['email'], 'email', resume.email, `candidate-${code.toLowerCase()}@example.com`);
+  if (options.phone && resume.phone) mask(['phone'], 'phone', resume.phone, `PHONE-${code}`);
+
+  if (options.institutions) {
+    const schools = [...new Set(resume.education.map(e => e.institution))];
+    resume.education.forEach((edu, i) => {
+      const index = schools.indexOf(edu.institution);
+      const kind = INSTITUTION_KINDS.find(k => new RegExp(`\\b${k}\\b`, 'i').test(edu.institution)) ?? 'Institution';
+      const letter = index < 26 ? String.fromCharCode(65 + index) : String(index + 1);
+      mask(['education', i, 'institution'], 'institution', edu.institution, `${kind} ${letter}`);
+    });
+  }
+
+  if (options.graduationYears) {
+    resume.education.forEach((_, i) => masked.push({ path: ['education', i, 'year'], field: 'graduation_year', pseudonym: null }));
+  }
+
+  // Structured fields first, then every free-text mention
+  const direct = new Map(pseudonyms);
+  const structured: Resume = {
+    ...resume,
+    name: direct.get(resume.name) ?? resume.name,
+    email: direct.get(resume.email) ?? resume.email,
+    phone: resume.phone === undefined ? undefined : direct.get(resume.phone) ?? resume.phone,
+    education: resume.education.map(e => ({ ...e, institution: direct.get(e.institution) ?? e.institution }))
+  };
+  if (!structured.phone) delete structured.phone;
+
+  let textReplacements = 0;
+  const redacted = mapStrings(structured, text => {
+    const [replaced, count] = replaceTerms(text, forward, true);
+    const [renamed, partCount] = replaceTerms(replaced, nameParts, false);
+    textReplacements += count + partCount;
+    return renamed;
+  });
+  redacted.candidateId = resume.candidateId;
+
+  return {
+    resume: redacted,
+    text: formatResumeAsText(redacted, { graduationYears: !options.graduationYears }),
+    report: { masked, textReplacements },
+    pseudonyms,
+    graduationYears: options.graduationYears ? resume.education.map(e => e.year) : null
+  };
+}
+
+/**
+ * redactScreening - Replace real values in a screening with the pseudonyms
+ *
+ * Used for few-shot examples, so a worked example reads like the redacted
+ * resume it is paired with. Graduation years stay: the schema requires one.
+ *
+ * @param screening - Screening of the unredacted resume
+ * @param redacted - Result of redactResume for the same resume
+ */
+export function redactScreening(screening: ResumeScreening, redacted: RedactedResume): ResumeScreening {
+  const forward = new Map(redacted.pseudonyms);
+  const masked = mapStrings(screening, text => replaceTerms(text, forward, true)[0]);
+  masked.candidate_id = screening.candidate_id;
+  return masked;
+}
+
+/**
+ * restoreScreening - Map pseudonyms in a screening back to the real values
+ *
+ * Graduation years the model never saw are filled in from the resume by
+ * matching education entries on institution and degree.
+ *
+ * @param screening - Screening produced from redacted.text
+ * @param redacted - Result of redactResume for the same resume
+ * @returns Screening with real names, schools and years
+ */
+export function restoreScreening(screening: ResumeScreening, redacted: RedactedResume): ResumeScreening {
+  const reverse = new Map(redacted.pseudonyms.map(([real, pseudonym]) => [pseudonym, real] as [string, string]));
+  const restored = mapStrings(screening, text => replaceTerms(text, reverse, false)[0]);
+  restored.candidate_id = screening.candidate_id;
+
+  const years = redacted.graduationYears;
+  if (years) {
+    const original = redacted.resume.education.map((edu, i) => ({
+      institution: reverse.get(edu.institution) ?? edu.institution,
+      degree: edu.degree,
+      year: years[i]
+    }));
+    restored.education_analysis.education_history = restored.education_analysis.education_history.map(entry => {
+      const match =
+        original.find(e => e.institution === entry.institution && e.degree === entry.degree) ??
+        original.find(e => e.institution === entry.institution);
+      return match ? { ...entry, graduation_year: match.year ?? null } : entry;
+    });
+  }
+
+  return restored;
+}
@@ -0,0 +1,104 @@
+/**
+ * Resume Parser Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseResumeText } from './ResumeParser.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockExtraction } from './MockProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes, formatResumeAsText } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const provider = new MockProvider();
+
+describe('parseResumeText', () => {
+  it('should round-trip every sample resume through formatResumeAsText', async () => {
+    for (const resume of Object.values(sampleResumes)) {
+      const text = formatResumeAsText(resume);
+      const result = await parseResumeText(text, { provider, candidateId: resume.candidateId });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(resume);
+      expect(formatResumeAsText(result.data!)).toBe(text);
+      expect(result.confidence?.roundTripSimilarity).toBe(1);
+      expect(result.confidence?.unverifiedValues).toEqual([]);
+    }
+  });
+
+  it('should parse education without a graduation year', async () => {
+    const alex = sampleResumes.strongMatch;
+    const text = formatResumeAsText(alex, { graduationYears: false });
+    const result = await parseResumeText(text, { provider, candidateId: alex.candidateId });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.education).toEqual(alex.education.map(({ year: _year, ...edu }) => edu));
+    expect(formatResumeAsText(result.data!)).toBe(text);
+  });
+
+  it('should assign a stable candidate ID when none is given', async () => {
+    const text = formatResumeAsText(sampleResumes.potentialFit);
+    const first = await parseResumeText(text, { provider });
+    const second = await parseResumeText(text, { provider });
+
+    expect(first.data?.candidateId).toMatch(/^CAND-[0-9A-F]{8}$/);
+    expect(first.data?.candidateId).toBe(second.data?.candidateId);
+  });
+
+  it('should feed straight into runResumeScreening', async () => {
+    const parsed = await parseResumeText(formatResumeAsText(sampleResumes.strongMatch), { provider });
+    const screening = await runResumeScreening(parsed.data!, defaultJob, { provider });
+
+    expect(screening.success).toBe(true);
+    expect(screening.data?.candidate_id).toBe(parsed.data?.candidateId);
+  });
+
+  it('should fail validation when the extraction is not a valid Resume', async () => {
+    const broken = new MockProvider({
+      handlers: { ResumeExtraction: request => ({ ...buildMockExtraction(String(request.context?.text)), email: 'none' }) }
+    });
+    const result = await parseResumeText(formatResumeAsText(sampleResumes.strongMatch), { provider: broken });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('semantic_error');
+    expect(result.error?.details?.[0].path).toEqual(['email']);
+    expect(result.metadata?.attempts.length).toBeGreaterThan(1);
+    expect(result.extraction?.name).toBe('Alex Chen');
+  });
+
+  it('should re-ask when the extraction is not a valid Resume', async () => {
+    let calls = 0;
+    const flaky = new MockProvider({
+      handlers: {
+        ResumeExtraction: request => {
+          const extraction = buildMockExtraction(String(request.context?.text));
+          return calls++ === 0 ? { ...extraction, email: 'none' } : extraction;
+        }
+      }
+    });
+    const result = await parseResumeText(formatResumeAsText(sampleResumes.strongMatch), { provider: flaky });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.email).toBe(sampleResumes.strongMatch.email);
+    expect(result.metadata?.attempts.map(a => a.outcome)).toEqual(['semantic_error', 'success']);
+  });
+
+  it('should lower confidence for text that does not match the extraction', async () => {
+    const text = 'Sam Rivera\nsam@example.com\n\nI build things.';
+    const confident = new MockProvider({
+      handlers: {
+        ResumeExtraction: () => ({
+          ...buildMockExtraction(formatResumeAsText(sampleResumes.strongMatch)),
+          email: 'sam@example.com'
+        })
+      }
+    });
+    const result = await parseResumeText(text, { provider: confident });
+
+    expect(result.success).toBe(true);
+    expect(result.confidence?.unverifiedValues.map(v => v.path)).toContain('name');
+    expect(result.confidence?.overall).toBeLessThan(0.5);
+    expect(result.confidence?.roundTripSimilarity).toBeLessThan(0.2);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * ResumeParser.ts - Structured Extraction of Resumes from Raw Text
+ *
+ * Real resumes arrive as plain text or Markdown. This stage uses the same
+ * Structured Outputs workflow as screening to extract a Resume object:
+ *
+ * 1. ResumeExtractionSchema constrains the model's output (nullable instead
+ *    of optional fields, because strict mode requires every property)
+ * 2. The extraction is converted to a Resume and validated with ResumeSchema
+ *    as part of the completion, so retries and repair rounds apply to it
+ * 3. A confidence report combines the model's self-assessment with local
+ *    checks: values not found in the source text, empty sections, and how
+ *    closely formatResumeAsText(resume) reproduces the input
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { runStructuredCompletion, AgentResult, AgentCallOptions } from './LLMAgent.js';
+import { ResumeSchema } from './InputSchemas.js';
+import { SemanticIssue } from './SemanticValidation.js';
+import { formatIssuePath } from './SchemaRepair.js';
+import { Resume, formatResumeAsText } from './examples/resumes.js';
+
+// ============================================================================
+// Extraction Schema
+// ============================================================================
+
+/**
+ * ResumeSectionEnum - Sections the extractor reports confidence for
+ */
+export const ResumeSectionEnum = z.enum([
+  'contact',
+  'summary',
+  'experience',
+  'education',
+  'skills',
+  'certifications',
+  'projects'
+]);
+export type ResumeSection = z.infer<typeof ResumeSectionEnum>;
+
+/**
+ * SectionConfidenceSchema - The model's confidence in one extracted section
+ */
+export const SectionConfidenceSchema = z.object({
+  section: ResumeSectionEnum
+    .describe('Resume section being assessed'),
+
+  confidence: z.number()
+    .min(0)
+    .max(1)
+    .describe('Confidence that the section was extracted completely and correctly (0-1)'),
+
+  notes: z.string()
+    .describe('What was ambiguous or missing in this section (empty if nothing)')
+});
+
+export type SectionConfidence = z.infer<typeof SectionConfidenceSchema>;
+
+/**
+ * ResumeExtractionSchema - What the model extracts from raw resume text
+ */
+export const ResumeExtractionSchema = z.object({
+  name: z.string()
+    .describe('Candidate full name'),
+
+  email: z.string()
+    .describe('Candidate email address'),
+
+  phone: z.string()
+    .nullable()
+    .describe('Phone number (null if not present)'),
+
+  summary: z.string()
+    .describe('Professional summary, verbatim where possible'),
+
+  experience: z.array(z.object({
+    company: z.string().describe('Employer name'),
+    title: z.string().describe('Job title'),
+    duration: z.string().describe('Date range exactly as written, e.g. "Jan 2021 - Present (3 years)"'),
+    achievements: z.array(z.string()).describe('Bullet points for this role, verbatim')
+  })).describe('Work experience, most recent first'),
+
+  education: z.array(z.object({
+    institution: z.string().describe('School or institution name'),
+    degree: z.string().describe('Degree or certificate, e.g. "B.S. Computer Science"'),
+    year: z.number().int().nullable().describe('Graduation year (null if not present)'),
+    gpa: z.number().nullable().describe('GPA (null if not present)')
+  })).describe('Education entries'),
+
+  skills: z.array(z.string())
+    .describe('Skills listed on the resume'),
+
+  certifications: z.array(z.string())
+    .describe('Professional certifications (empty if none)'),
+
+  projects: z.array(z.object({
+    name: z.string().describe('Project name'),
+    description: z.string().describe('Project description'),
+    url: z.string().nullable().describe('Project URL (null if not present)')
+  })).describe('Projects (empty if none)'),
+
+  section_confidence: z.array(SectionConfidenceSchema)
+    .describe('Confidence for each resume section')
+});
+
+export type ResumeExtraction = z.infer<typeof ResumeExtractionSchema>;
+
+// ============================================================================
+// Confidence Report
+// ============================================================================
+
+/**
+ * ExtractionConfidenceReport - How much to trust an extracted Resume
+ */
+export interface ExtractionConfidenceReport {
+  // Mean of model-reported section confidences, lowered by local findings (0-1)
+  overall: number;
+  sections: SectionConfidence[];
+  // Extracted values that do not occur in the source text
+  unverifiedValues: Array<{ path: string; value: string }>;
+  // Sections the extraction left empty
+  emptySections: ResumeSection[];
+  // Token overlap between formatResumeAsText(resume) and the source (0-1)
+  roundTripSimilarity: number;
+}
+
+/**
+ * ResumeParseResult - Extracted Resume plus its confidence report
+ */
+export interface ResumeParseResult extends AgentResult<Resume> {
+  extraction?: ResumeExtraction;
+  confidence?: ExtractionConfidenceReport;
+}
+
+/**
+ * ResumeParseOptions - Per-call overrides for parseResumeText
+ */
+export interface ResumeParseOptions extends AgentCallOptions {
+  // Candidate ID to assign (defaults to a stable hash of the text)
+  candidateId?: string;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9+#@.]+/).map(t => t.replace(/^\.+|\.+$/g, '')).filter(t => t.length > 0);
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  if (left.size === 0 && right.size === 0) return 1;
+  const shared = [...left].filter(t => right.has(t)).length;
+  return Math.round((shared / new Set([...left, ...right]).size) * 100) / 100;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Build the confidence report for an extraction
+ */
+export function buildConfidenceReport(
+  extraction: ResumeExtraction,
+  resume: Resume,
+  sourceText: string
+): ExtractionConfidenceReport {
+  const source = normalizeWhitespace(sourceText);
+  const unverifiedValues: ExtractionConfidenceReport['unverifiedValues'] = [];
+  const verify = (path: string, value: string | null | undefined) => {
+    if (value && !source.includes(normalizeWhitespace(value))) unverifiedValues.push({ path, value });
+  };
+
+  verify('name', resume.name);
+  verify('email', resume.email);
+  verify('phone', resume.phone);
+  resume.experience.forEach((exp, i) => {
+    verify(`experience[${i}].company`, exp.company);
+    verify(`experience[${i}].title`, exp.title);
+  });
+  resume.education.forEach((edu, i) => verify(`education[${i}].institution`, edu.institution));
+  resume.skills.forEach((skill, i) => verify(`skills[${i}]`, skill));
+
+  const emptySections = ([
+    ['summary', resume.summary.trim().length === 0],
+    ['experience', resume.experience.length === 0],
+    ['education', resume.education.length === 0],
+    ['skills', resume.skills.length === 0]
+  ] as const).filter(([, empty]) => empty).map(([section]) => section);
+
+  const modelConfidence = extraction.section_confidence.length > 0
+    ? extraction.section_confidence.reduce((sum, s) => sum + s.confidence, 0) / extraction.section_confidence.length
+    : 0.5;
+  const penalty = 0.05 * unverifiedValues.length + 0.1 * emptySections.length;
+
+  return {
+    overall: Math.round(Math.max(0, modelConfidence - penalty) * 100) / 100,
+    sections: extraction.section_confidence,
+    unverifiedValues,
+    emptySections,
+    roundTripSimilarity: tokenSimilarity(formatResumeAsText(resume), sourceText)
+  };
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Stable candidate ID derived from the resume text
+ */
+function candidateIdFor(text: string): string {
+  return `CAND-${createHash('sha256').update(text).digest('hex').slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * Convert an extraction into the Resume shape (nulls become absent fields)
+ */
+export function extractionToResume(extraction: ResumeExtraction, candidateId: string): unknown {
+  return {
+    candidateId,
+    name: extraction.name,
+    email: extraction.email,
+    ...(extraction.phone ? { phone: extraction.phone } : {}),
+    summary: extraction.summary,
+    experience: extraction.experience,
+    education: extraction.education.map(edu => ({
+      institution: edu.institution,
+      degree: edu.degree,
+      ...(edu.year !== null ? { year: edu.year } : {}),
+      ...(edu.gpa !== null ? { gpa: edu.gpa } : {})
+    })),
+    skills: extraction.skills,
+    ...(extraction.certifications.length > 0 ? { certifications: extraction.certifications } : {}),
+    ...(extraction.projects.length > 0
+      ? {
+          projects: extraction.projects.map(p => ({
+            name: p.name,
+            description: p.description,
+            ...(p.url ? { url: p.url } : {})
+          }))
+        }
+      : {})
+  };
+}
+
+/**
+ * ResumeSchema violations of the Resume an extraction converts to
+ *
+ * Paths are Resume paths, which match the extraction's own fields.
+ */
+function resumeIssues(extraction: ResumeExtraction, candidateId: string): SemanticIssue<'resume_schema'>[] {
+  const result = ResumeSchema.safeParse(extractionToResume(extraction, candidateId));
+  if (result.success) return [];
+  return result.error.issues.map(issue => ({
+    rule: 'resume_schema',
+    path: issue.path,
+    message: `${formatIssuePath(issue.path)}: ${issue.message}`
+  }));
+}
+
+/**
+ * The last extraction the model returned, if it matched the extraction schema
+ */
+function parseExtraction(rawResponse: string | undefined): ResumeExtraction | undefined {
+  if (!rawResponse) return undefined;
+  try {
+    const parsed = ResumeExtractionSchema.safeParse(JSON.parse(rawResponse));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Agent Function
+// ============================================================================
+
+/**
+ * parseResumeText - Extract a validated Resume from plain text or Markdown
+ *
+ * @param text - Raw resume text
+ * @param options - Candidate ID plus provider/model/retry overrides
+ * @returns Resume ready for runResumeScreening, with a confidence report
+ */
+export async function parseResumeText(
+  text: string,
+  options: ResumeParseOptions = {}
+): Promise<ResumeParseResult> {
+  const { candidateId = candidateIdFor(text), ...callOptions } = options;
+
+  const extracted = await runStructuredCompletion({
+    schema: ResumeExtractionSchema,
+    schemaName: 'ResumeExtraction',
+    messages: [
+      {
+        role: 'system',
+        content: `You are a precise resume parser. Extract the resume into the required JSON structure.
+
+Rules:
+1. Copy names, titles, companies, dates and bullet points verbatim - do not paraphrase
+2. Keep work experience in the order it appears (most recent first)
+3. Use null for missing optional values and empty arrays for missing sections
+4. Report your confidence for every section, explaining anything ambiguous`
+      },
+      {
+        role: 'user',
+        content: `Extract the following resume:\n\n${text}`
+      }
+    ],
+    context: { text },
+    // Constrained Decoding guarantees the extraction shape, not a valid Resume
+    semanticCheck: extraction => resumeIssues(extraction, candidateId)
+  }, callOptions);
+
+  if (!extracted.success || !extracted.data) {
+    if (extracted.error?.type === 'semantic_error') console.log('[ResumeParser] FAILED - Extraction is not a valid Resume');
+    return { ...extracted, data: undefined, extraction: parseExtraction(extracted.rawResponse) };
+  }
+
+  const resume = ResumeSchema.parse(extractionToResume(extracted.data, candidateId));
+  const confidence = buildConfidenceReport(extracted.data, resume, text);
+  console.log(`[ResumeParser] Extraction confidence: ${confidence.overall}`);
+
+  return {
+    success: true,
+    data: resume,
+    extraction: extracted.data,
+    confidence,
+    rawResponse: extracted.rawResponse,
+    metadata: extracted.metadata
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * RetryPolicy.ts - Retry, Backoff and Fallback Rules
+ *
+ * Structured Outputs calls fail in two very different ways:
+ * - Transient API failures (rate limits, timeouts, 5xx) - wait and retry
+ * - Bad output (unparseable JSON, schema violations) - re-ask immediately
+ *
+ * Once the primary model has used up its retries, the agent switches to
+ * modelConfig.fallbackModel and starts a fresh round of attempts.
+ */
+
+import { modelConfig, retryConfig } from './config.js';
+
+/**
+ * RetryPolicy - Knobs controlling how runResumeScreening retries
+ */
+export interface RetryPolicy {
+  // Retries per model after the first attempt
+  maxRetries: number;
+  // Delay before the first transient retry
+  baseDelayMs: number;
+  // Upper bound for any single delay
+  maxDelayMs: number;
+  // Delay growth factor between consecutive transient retries
+  backoffMultiplier: number;
+  // Model to switch to once the primary is exhausted (null disables fallback)
+  fallbackModel: string | null;
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxRetries: modelConfig.maxRetries,
+  baseDelayMs: retryConfig.baseDelayMs,
+  maxDelayMs: retryConfig.maxDelayMs,
+  backoffMultiplier: retryConfig.backoffMultiplier,
+  fallbackModel: modelConfig.fallbackModel
+};
+
+/**
+ * Merge per-call overrides onto the default policy
+ */
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return { ...defaultRetryPolicy, ...overrides };
+}
+
+/**
+ * Exponential backoff delay for the Nth transient retry (0-based)
+ */
+export function computeBackoffDelay(retryIndex: number, policy: RetryPolicy): number {
+  const delay = policy.baseDelayMs * Math.pow(policy.backoffMultiplier, retryIndex);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+const TRANSIENT_STATUS_CODES = new Set([408, 409, 429, 500, 502, 503, 504]);
+
+/**
+ * Whether an API error is worth retrying against the same model
+ *
+ * HTTP status codes come from the OpenAI SDK's APIError; connection and
+ * timeout errors carry no status and are identified by name.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return TRANSIENT_STATUS_CODES.has(status) || status >= 500;
+  }
+
+  return /timeout|connection|ECONNRESET|ETIMEDOUT|rate limit/i.test(`${error.name} ${error.message}`);
+}
+
+/**
+ * Promise-based delay
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
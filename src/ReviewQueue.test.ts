@@ -0,0 +1,118 @@
+/**
+ * Review Queue Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ReviewQueue,
+  ReviewAlreadyDecidedError,
+  MissingAuditNoteError,
+  ReviewItemNotFoundError,
+  ReviewQueueError,
+  finalScreening
+} from './ReviewQueue.js';
+import { exampleResumeScreening, ResumeScreening, ReviewFlag, ResumeScreeningSchema } from './SGRSchema.js';
+import { buildMockScreening } from './MockProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+const fixedClock = () => new Date('2024-03-01T12:00:00Z');
+
+function flagged(candidateId: string, flags: ReviewFlag[]): ResumeScreening {
+  return { ...exampleResumeScreening, candidate_id: candidateId, review_flags: flags };
+}
+
+const flag = (priority: ReviewFlag['priority']): ReviewFlag => ({
+  reason: 'edge_case',
+  priority,
+  explanation: 'Borderline score needs a second opinion'
+});
+
+describe('review_flags', () => {
+  it('should stay optional and nullable on ResumeScreeningSchema', () => {
+    const { review_flags, ...withoutFlags } = flagged('CAND-1', [flag('low')]);
+    expect(review_flags).toHaveLength(1);
+    expect(ResumeScreeningSchema.safeParse(withoutFlags).success).toBe(true);
+    expect(ResumeScreeningSchema.safeParse({ ...withoutFlags, review_flags: null }).success).toBe(true);
+  });
+
+  it('should be raised by the mock screener for a potential fit', () => {
+    const screening = buildMockScreening(sampleResumes.potentialFit, defaultJob);
+    expect(screening.review_flags?.map(f => f.reason)).toContain('underqualified_but_potential');
+  });
+});
+
+describe('ReviewQueue', () => {
+  it('should only queue flagged screenings and sort them by priority', () => {
+    const queue = new ReviewQueue(fixedClock);
+    const queued = queue.enqueueAll([
+      flagged('CAND-LOW', [flag('low')]),
+      flagged('CAND-NONE', []),
+      flagged('CAND-URGENT', [flag('urgent')]),
+      flagged('CAND-HIGH-2', [flag('medium'), flag('high')]),
+      flagged('CAND-HIGH-1', [flag('high')])
+    ]);
+
+    expect(queued).toHaveLength(4);
+    expect(queue.pending().map(item => item.screening.candidate_id)).toEqual([
+      'CAND-URGENT',
+      'CAND-HIGH-2',
+      'CAND-HIGH-1',
+      'CAND-LOW'
+    ]);
+    expect(queue.next()?.priority).toBe('urgent');
+  });
+
+  it('should record approvals and overrides in the audit log', () => {
+    const queue = new ReviewQueue(fixedClock);
+    const [first, second] = queue.enqueueAll([flagged('CAND-1', [flag('high')]), flagged('CAND-2', [flag('low')])]);
+
+    queue.approve(first.id, 'alice', 'Score is borderline but evidence is solid');
+    const overridden = queue.override(second.id, 'bob', 'phone_screen_first', 'Career gap explained in cover letter');
+
+    expect(finalScreening(overridden).recommended_action).toBe('phone_screen_first');
+    expect(queue.pending()).toEqual([]);
+    expect(queue.auditLog()).toEqual([
+      expect.objectContaining({ itemId: first.id, decision: 'approved', finalAction: 'advance_to_interview', reviewer: 'alice' }),
+      expect.objectContaining({
+        itemId: second.id,
+        decision: 'overridden',
+        originalAction: 'advance_to_interview',
+        finalAction: 'phone_screen_first',
+        note: 'Career gap explained in cover letter',
+        at: '2024-03-01T12:00:00.000Z'
+      })
+    ]);
+  });
+
+  it('should refuse decisions without a note, repeats and no-op overrides', () => {
+    const queue = new ReviewQueue(fixedClock);
+    const item = queue.enqueue(flagged('CAND-1', [flag('medium')]))!;
+
+    expect(() => queue.approve(item.id, 'alice', '  ')).toThrow(MissingAuditNoteError);
+    expect(() => queue.override(item.id, 'alice', 'advance_to_interview', 'same')).toThrow(ReviewQueueError);
+    expect(() => queue.approve('missing', 'alice', 'note')).toThrow(ReviewItemNotFoundError);
+
+    queue.approve(item.id, 'alice', 'Looks right');
+    expect(() => queue.override(item.id, 'bob', 'reject', 'Changed my mind')).toThrow(ReviewAlreadyDecidedError);
+    expect(() => queue.enqueue(flagged('CAND-1', [flag('low')]))).toThrow(ReviewAlreadyDecidedError);
+  });
+
+  it('should not let callers change items or the audit log', () => {
+    const queue = new ReviewQueue(fixedClock);
+    const screening = flagged('CAND-1', [flag('medium')]);
+    const item = queue.enqueue(screening)!;
+    screening.recommended_action = 'reject';
+    item.status = 'approved';
+    queue.pending()[0].screening.recommended_action = 'reject';
+
+    expect(queue.get(item.id)).toMatchObject({ status: 'pending', screening: { recommended_action: 'advance_to_interview' } });
+
+    queue.approve(item.id, 'alice', 'Looks right');
+    queue.auditLog()[0].finalAction = 'reject';
+    queue.get(item.id).decision!.note = 'edited';
+
+    expect(queue.auditLog()[0]).toMatchObject({ finalAction: 'advance_to_interview', note: 'Looks right' });
+    expect(queue.get(item.id).decision?.note).toBe('Looks right');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * ReviewQueue.ts - Human Review of Flagged Screenings
+ *
+ * Screenings that carry review_flags are collected here instead of being
+ * acted on automatically. Reviewers work the queue in priority order and
+ * either approve the recommended_action or override it; both decisions
+ * require an audit note and are kept in an append-only audit log.
+ *
+ * Items and decisions handed out are copies: an item only changes through
+ * approve() or override(), and the audit log cannot be edited.
+ */
+
+import { ResumeScreening, RecommendedAction, ReviewFlag } from './SGRSchema.js';
+import { PriorityLevel } from './config.js';
+
+/**
+ * Sort rank of each priority (lower is reviewed first)
+ */
+export const PRIORITY_RANK: Record<PriorityLevel, number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+export type ReviewStatus = 'pending' | 'approved' | 'overridden';
+
+/**
+ * ReviewDecision - A reviewer's decision on one screening (audit log entry)
+ */
+export interface ReviewDecision {
+  itemId: string;
+  reviewer: string;
+  decision: Exclude<ReviewStatus, 'pending'>;
+  originalAction: RecommendedAction;
+  finalAction: RecommendedAction;
+  note: string;
+  at: string;
+}
+
+/**
+ * ReviewItem - A flagged screening awaiting or after review
+ */
+export interface ReviewItem {
+  id: string;
+  screening: ResumeScreening;
+  flags: ReviewFlag[];
+  // Highest priority among the flags
+  priority: PriorityLevel;
+  status: ReviewStatus;
+  enqueuedAt: string;
+  decision?: ReviewDecision;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * ReviewQueueError - Base class for all review queue failures
+ */
+export class ReviewQueueError extends Error {
+  constructor(message: string, readonly itemId: string) {
+    super(message);
+    this.name = 'ReviewQueueError';
+  }
+}
+
+/**
+ * ReviewItemNotFoundError - No item with this ID is queued
+ */
+export class ReviewItemNotFoundError extends ReviewQueueError {
+  constructor(itemId: string) {
+    super(`No review item ${itemId}`, itemId);
+    this.name = 'ReviewItemNotFoundError';
+  }
+}
+
+/**
+ * ReviewAlreadyDecidedError - The item was already approved or overridden
+ */
+export class ReviewAlreadyDecidedError extends ReviewQueueError {
+  constructor(itemId: string, readonly status: ReviewStatus) {
+    super(`Review item ${itemId} is already ${status}`, itemId);
+    this.name = 'ReviewAlreadyDecidedError';
+  }
+}
+
+/**
+ * MissingAuditNoteError - A decision was made without an explanation
+ */
+export class MissingAuditNoteError extends ReviewQueueError {
+  constructor(itemId: string) {
+    super(`A non-empty audit note is required to decide ${itemId}`, itemId);
+    this.name = 'MissingAuditNoteError';
+  }
+}
+
+/**
+ * Highest priority among a set of flags
+ */
+export function highestPriority(flags: ReviewFlag[]): PriorityLevel {
+  return flags.reduce<PriorityLevel>(
+    (best, flag) => (PRIORITY_RANK[flag.priority] < PRIORITY_RANK[best] ? flag.priority : best),
+    'low'
+  );
+}
+
+/**
+ * Screening with the reviewer's final recommended_action applied
+ */
+export function finalScreening(item: ReviewItem): ResumeScreening {
+  return item.decision
+    ? { ...item.screening, recommended_action: item.decision.finalAction }
+    : item.screening;
+}
+
+/**
+ * Copy of an item that callers can change without affecting the queue
+ */
+function copyItem(item: ReviewItem): ReviewItem {
+  return structuredClone(item);
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * ReviewQueue - In-memory queue of flagged screenings
+ */
+export class ReviewQueue {
+  private readonly items = new Map<string, ReviewItem>();
+  private readonly decisions: ReviewDecision[] = [];
+
+  /**
+   * @param now - Clock used for timestamps (injectable for tests)
+   */
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  private static key(candidateId: string, jobId: string): string {
+    return `${candidateId}::${jobId}`;
+  }
+
+  /**
+   * Queue a screening if it carries review flags
+   *
+   * A newer screening replaces a pending item for the same candidate/job.
+   *
+   * @returns The queued item, or null if the screening has no flags
+   * @throws ReviewAlreadyDecidedError if the pair was already reviewed
+   */
+  enqueue(screening: ResumeScreening): ReviewItem | null {
+    const flags = screening.review_flags ?? [];
+    if (flags.length === 0) return null;
+
+    const id = ReviewQueue.key(screening.candidate_id, screening.job_id);
+    const existing = this.items.get(id);
+    if (existing && existing.status !== 'pending') {
+      throw new ReviewAlreadyDecidedError(id, existing.status);
+    }
+
+    const item: ReviewItem = {
+      id,
+      screening,
+      flags,
+      priority: highestPriority(flags),
+      status: 'pending',
+      enqueuedAt: this.now().toISOString()
+    };
+    this.items.set(id, copyItem(item));
+    return item;
+  }
+
+  /**
+   * Queue every flagged screening
+   *
+   * @returns The items that were queued
+   */
+  enqueueAll(screenings: ResumeScreening[]): ReviewItem[] {
+    return screenings
+      .map(screening => this.enqueue(screening))
+      .filter((item): item is ReviewItem => item !== null);
+  }
+
+  /**
+   * Get an item by ID
+   *
+   * @throws ReviewItemNotFoundError if no such item is queued
+   */
+  get(itemId: string): ReviewItem {
+    return copyItem(this.find(itemId));
+  }
+
+  /**
+   * Pending items, highest priority first
+   *
+   * Ties go to the item with more flags, then to the one queued first.
+   */
+  pending(): ReviewItem[] {
+    return [...this.items.values()]
+      .filter(item => item.status === 'pending')
+      .sort((a, b) =>
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        b.flags.length - a.flags.length ||
+        a.enqueuedAt.localeCompare(b.enqueuedAt)
+      )
+      .map(copyItem);
+  }
+
+  /**
+   * Next item to review (null when the queue is empty)
+   */
+  next(): ReviewItem | null {
+    return this.pending()[0] ?? null;
+  }
+
+  /**
+   * Accept the screening's recommended_action
+   *
+   * @throws ReviewItemNotFoundError, ReviewAlreadyDecidedError, MissingAuditNoteError
+   */
+  approve(itemId: string, reviewer: string, note: string): ReviewItem {
+    const item = this.find(itemId);
+    return this.decide(item, reviewer, 'approved', item.screening.recommended_action, note);
+  }
+
+  /**
+   * Replace the screening's recommended_action
+   *
+   * @throws ReviewItemNotFoundError, ReviewAlreadyDecidedError, MissingAuditNoteError
+   * @throws ReviewQueueError if the action equals the recommendation (use approve)
+   */
+  override(itemId: string, reviewer: string, action: RecommendedAction, note: string): ReviewItem {
+    const item = this.find(itemId);
+    if (action === item.screening.recommended_action) {
+      throw new ReviewQueueError(`Override of ${itemId} keeps '${action}'; use approve instead`, itemId);
+    }
+    return this.decide(item, reviewer, 'overridden', action, note);
+  }
+
+  /**
+   * All decisions in the order they were made
+   */
+  auditLog(): ReviewDecision[] {
+    return this.decisions.map(entry => ({ ...entry }));
+  }
+
+  private decide(
+    item: ReviewItem,
+    reviewer: string,
+    decision: ReviewDecision['decision'],
+    finalAction: RecommendedAction,
+    note: string
+  ): ReviewItem {
+    if (item.status !== 'pending') throw new ReviewAlreadyDecidedError(item.id, item.status);
+    if (!note.trim()) throw new MissingAuditNoteError(item.id);
+
+    const entry: ReviewDecision = {
+      itemId: item.id,
+      reviewer,
+      decision,
+      originalAction: item.screening.recommended_action,
+      finalAction,
+      note: note.trim(),
+      at: this.now().toISOString()
+    };
+    this.decisions.push(entry);
+    item.status = decision;
+    item.decision = entry;
+    return copyItem(item);
+  }
+
+  /**
+   * The stored (mutable) item
+   *
+   * @throws ReviewItemNotFoundError if no such item is queued
+   */
+  private find(itemId: string): ReviewItem {
+    const item = this.items.get(itemId);
+    if (!item) throw new ReviewItemNotFoundError(itemId);
+    return item;
+  }
+}
@@ -61,6 +61,18 @@ export type Relevance = z.infer<typeof RelevanceEnum>;
 export const DegreeTypeEnum = z.enum(enums.degreeTypes);
 export type DegreeType = z.infer<typeof DegreeTypeEnum>;
 
+/**
+ * FlagReasonEnum - Why a screening needs a human look
+ */
+export const FlagReasonEnum = z.enum(enums.flagReasons);
+export type FlagReason = z.infer<typeof FlagReasonEnum>;
+
+/**
+ * PriorityLevelEnum - How soon a flagged screening should be reviewed
+ */
+export const PriorityLevelEnum = z.enum(enums.priorityLevels);
+export type PriorityLevel = z.infer<typeof PriorityLevelEnum>;
+
 // ============================================================================
 // Screening Step Schema - The Heart of SGR
 // ============================================================================
@@ -94,7 +106,12 @@ export const ScreeningStepSchema = z.object({
 
   gap_identified: z.string()
     .nullable()
-    .describe('If requirement not met, what gap was identified (null if requirement met)')
+    .describe('If requirement not met, what gap was identified (null if requirement met)'),
+
+  criterion_id: z.string()
+    .nullable()
+    .optional()
+    .describe('ID of the job-specific screening criterion this step evaluates (null if the job declares none)')
 });
 
 export type ScreeningStep = z.infer<typeof ScreeningStepSchema>;
@@ -246,6 +263,31 @@ export const EducationAnalysisSchema = z.object({
 
 export type EducationAnalysis = z.infer<typeof EducationAnalysisSchema>;
 
+// ============================================================================
+// Review Flag Schema
+// ============================================================================
+
+/**
+ * ReviewFlagSchema - Request for human review of a screening
+ *
+ * Flags mark cases where the automated recommendation should not be
+ * acted on blindly (career changers, overqualified candidates, missing
+ * information, borderline scores).
+ */
+export const ReviewFlagSchema = z.object({
+  reason: FlagReasonEnum
+    .describe('Why this screening needs human review'),
+
+  priority: PriorityLevelEnum
+    .describe('How urgently a reviewer should look at it'),
+
+  explanation: z.string()
+    .min(schemaConfig.minEvidenceLength)
+    .describe('What the reviewer should look at and why')
+});
+
+export type ReviewFlag = z.infer<typeof ReviewFlagSchema>;
+
 // ============================================================================
 // Main Resume Screening Schema - The Complete SGR Structure
 // ============================================================================
@@ -322,7 +364,13 @@ export const ResumeScreeningSchema = z.object({
     .describe('Recommended next action for this candidate'),
 
   interview_focus_areas: z.array(z.string())
-    .describe('Suggested areas to explore if candidate advances to interview')
+    .describe('Suggested areas to explore if candidate advances to interview'),
+
+  // Optional so older stored screenings still validate; sent as nullable in strict mode
+  review_flags: z.array(ReviewFlagSchema)
+    .nullable()
+    .optional()
+    .describe('Reasons a human should review this screening (null or empty if none)')
 });
 
 export type ResumeScreening = z.infer<typeof ResumeScreeningSchema>;
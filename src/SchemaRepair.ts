@@ -0,0 +1,78 @@
+/**
+ * SchemaRepair.ts - Feed Validation Issues Back to the Model
+ *
+ * Re-asking from scratch throws away a response that is usually 95% right.
+ * A repair round instead shows the model its own output together with the
+ * exact Zod issues and asks it to fix only the broken paths.
+ */
+
+import { z } from 'zod';
+import { repairConfig } from './config.js';
+import type { ChatMessage } from './LLMProvider.js';
+
+/**
+ * RepairOptions - Controls the self-repair loop
+ */
+export interface RepairOptions {
+  // Whether validation failures trigger repair rounds
+  enabled: boolean;
+  // Maximum follow-up turns per attempt before giving up
+  maxRounds: number;
+}
+
+/**
+ * Merge per-call overrides onto the configured defaults
+ */
+export function resolveRepairOptions(overrides: Partial<RepairOptions> = {}): RepairOptions {
+  return {
+    enabled: repairConfig.enabled,
+    maxRounds: repairConfig.maxRounds,
+    ...overrides
+  };
+}
+
+/**
+ * Format a Zod issue path as "screening_steps[0].evidence"
+ */
+export function formatIssuePath(path: (string | number)[]): string {
+  if (path.length === 0) return '(root)';
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Render Zod issues as a bullet list the model can act on
+ */
+export function formatZodIssues(issues: z.ZodIssue[]): string {
+  return issues
+    .map(issue => `- ${formatIssuePath(issue.path)}: ${issue.message} (${issue.code})`)
+    .join('\n');
+}
+
+/**
+ * Build the follow-up conversation for one repair round
+ *
+ * @param messages - The conversation that produced the invalid response
+ * @param rawResponse - The invalid JSON returned by the model
+ * @param issues - Zod issues found in rawResponse
+ */
+export function buildRepairMessages(
+  messages: ChatMessage[],
+  rawResponse: string,
+  issues: z.ZodIssue[]
+): ChatMessage[] {
+  return [
+    ...messages,
+    { role: 'assistant', content: rawResponse },
+    {
+      role: 'user',
+      content: `Your JSON response failed schema validation with the following issues:
+
+${formatZodIssues(issues)}
+
+Return the complete JSON object again. Fix ONLY the paths listed above and keep every other field exactly as it was.`
+    }
+  ];
+}
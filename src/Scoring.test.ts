@@ -0,0 +1,71 @@
+/**
+ * Weighted Scoring Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { computeFitScore, requiredYearsOf } from './Scoring.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { exampleResumeScreening } from './SGRSchema.js';
+import { defaultJob, juniorFrontendDeveloper } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('computeFitScore', () => {
+  it('should be reproducible and bounded for every sample resume', () => {
+    for (const resume of Object.values(sampleResumes)) {
+      const screening = buildMockScreening(resume, defaultJob);
+      const first = computeFitScore(screening, defaultJob);
+
+      expect(computeFitScore(screening, defaultJob)).toEqual(first);
+      expect(first.computedScore).toBeGreaterThanOrEqual(0);
+      expect(first.computedScore).toBeLessThanOrEqual(100);
+      expect(first.components.map(c => c.name)).toEqual(['screeningSteps', 'requiredSkills', 'preferredSkills', 'experience', 'education']);
+    }
+  });
+
+  it('should rank the strong match above the weak one', () => {
+    const strong = computeFitScore(buildMockScreening(sampleResumes.strongMatch, defaultJob), defaultJob);
+    const weak = computeFitScore(buildMockScreening(sampleResumes.notQualified, defaultJob), defaultJob);
+    expect(strong.computedScore).toBeGreaterThan(weak.computedScore);
+  });
+
+  it('should flag a model score that diverges from the evidence', () => {
+    const screening = buildMockScreening(sampleResumes.notQualified, defaultJob);
+    const report = computeFitScore({ ...screening, fit_score: 95, overall_fit: 'strong_match' }, defaultJob);
+
+    expect(report.modelScore).toBe(95);
+    expect(report.divergence).toBe(report.computedScore - 95);
+    expect(report.diverged).toBe(true);
+    expect(report.computedFit).not.toBe('strong_match');
+  });
+
+  it('should honour weight overrides and the divergence threshold', () => {
+    const onlyEducation = computeFitScore(exampleResumeScreening, defaultJob, {
+      weights: { screeningSteps: 0, requiredSkills: 0, preferredSkills: 0, experience: 0, education: 1 },
+      divergenceThreshold: 100
+    });
+    expect(onlyEducation.computedScore).toBe(exampleResumeScreening.education_analysis.meets_education_requirement ? 100 : 0);
+    expect(onlyEducation.diverged).toBe(false);
+  });
+
+  it('should weight steps by declared criteria', () => {
+    const screening = buildMockScreening(sampleResumes.potentialFit, juniorFrontendDeveloper);
+    const steps = computeFitScore(screening, juniorFrontendDeveloper).components.find(c => c.name === 'screeningSteps')!;
+    expect(steps.detail).toMatch(/^criterion weight met \d+\/7$/);
+  });
+
+  it('should read the years requirement from the job', () => {
+    expect(requiredYearsOf(defaultJob)).toBeGreaterThan(0);
+    expect(requiredYearsOf(juniorFrontendDeveloper)).toBe(0);
+  });
+});
+
+describe('runResumeScreening scoring', () => {
+  it('should attach the score report', async () => {
+    const result = await runResumeScreening(sampleResumes.strongMatch, defaultJob, { provider: new MockProvider() });
+    expect(result.scoring?.modelScore).toBe(result.data?.fit_score);
+    expect(typeof result.scoring?.computedScore).toBe('number');
+  });
+});
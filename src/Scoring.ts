@@ -0,0 +1,198 @@
+/**
+ * Scoring.ts - Deterministic Weighted fit_score
+ *
+ * The model's fit_score is a judgement call and can drift between runs.
+ * This module recomputes a reproducible score from the structured fields
+ * the model already had to fill in:
+ *
+ * - screening_steps[].requirement_met (weighted by criterion when declared)
+ * - required and preferred requirements covered by the extracted skills,
+ *   resolved through the skill taxonomy
+ * - relevant_years against the job's years-of-experience requirement
+ * - education_analysis.meets_education_requirement
+ *
+ * Both scores are reported; a gap above divergenceThreshold is flagged.
+ */
+
+import { ResumeScreening, CandidateFit } from './SGRSchema.js';
+import { fitBandForScore } from './SemanticValidation.js';
+import { weightedScoringConfig } from './config.js';
+import { SkillTaxonomy, defaultSkillTaxonomy, matchSkillRequirements } from './SkillTaxonomy.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+export type ScoreComponentName = keyof typeof weightedScoringConfig.weights;
+
+export type ScoreWeights = Record<ScoreComponentName, number>;
+
+/**
+ * ScoreComponent - One input to the computed score
+ */
+export interface ScoreComponent {
+  name: ScoreComponentName;
+  weight: number;
+  // How fully the candidate satisfies this component (0-1)
+  value: number;
+  // Contribution to the computed score (0-100 scale)
+  points: number;
+  detail: string;
+}
+
+/**
+ * ScoreReport - Model score next to the computed score
+ */
+export interface ScoreReport {
+  modelScore: number;
+  computedScore: number;
+  // computedScore - modelScore
+  divergence: number;
+  diverged: boolean;
+  modelFit: CandidateFit;
+  computedFit: CandidateFit;
+  components: ScoreComponent[];
+}
+
+/**
+ * ScoringOptions - Overrides for computeFitScore
+ */
+export interface ScoringOptions {
+  weights?: Partial<ScoreWeights>;
+  divergenceThreshold?: number;
+  // Skill matching (defaults to defaultSkillTaxonomy)
+  taxonomy?: SkillTaxonomy;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9+#.]+/).filter(w => w.length > 0);
+}
+
+/**
+ * Minimum years of experience named in the required qualifications (0 if none)
+ */
+export function requiredYearsOf(job: JobDescription): number {
+  for (const requirement of job.requirements.required) {
+    const match = requirement.match(/(\d+)\s*(?:\+|-\s*\d+)?\s*years?/i);
+    if (match) return parseInt(match[1], 10);
+  }
+  return 0;
+}
+
+function stepsComponent(screening: ResumeScreening, job: JobDescription): [number, string] {
+  const steps = screening.screening_steps;
+  const criteria = job.screeningCriteria ?? [];
+  if (criteria.length > 0) {
+    const total = criteria.reduce((sum, c) => sum + c.weight, 0);
+    const met = criteria
+      .filter(c => steps.some(s => s.criterion_id === c.id && s.requirement_met))
+      .reduce((sum, c) => sum + c.weight, 0);
+    return [met / total, `criterion weight met ${met}/${total}`];
+  }
+  const met = steps.filter(s => s.requirement_met).length;
+  return [steps.length === 0 ? 0 : met / steps.length, `${met}/${steps.length} steps met`];
+}
+
+function candidateSkillsOf(screening: ResumeScreening): string[] {
+  return [
+    ...screening.skills_analysis.technical_skills.map(s => s.skill_name),
+    ...screening.skills_analysis.required_skills_matched,
+    ...screening.skills_analysis.certifications
+  ];
+}
+
+function requiredSkillsComponent(screening: ResumeScreening, job: JobDescription, taxonomy: SkillTaxonomy): [number, string] {
+  // Prefer resolving the requirements through the taxonomy over the model's own lists
+  const matches = matchSkillRequirements(job.requirements.required, candidateSkillsOf(screening), taxonomy);
+  if (matches.length > 0) {
+    const met = matches.filter(m => m.satisfiedBy !== null).length;
+    return [met / matches.length, `${met}/${matches.length} skill requirements met`];
+  }
+
+  const matched = screening.skills_analysis.required_skills_matched.length;
+  const missing = screening.skills_analysis.missing_required_skills.length;
+  if (matched + missing === 0) return [1, 'no required skills listed'];
+  return [matched / (matched + missing), `${matched} matched, ${missing} missing`];
+}
+
+function preferredSkillsComponent(screening: ResumeScreening, job: JobDescription, taxonomy: SkillTaxonomy): [number, string] {
+  const preferred = job.requirements.preferred;
+  if (preferred.length === 0) return [1, 'no preferred requirements'];
+
+  const skills = candidateSkillsOf(screening);
+  const resolved = matchSkillRequirements(preferred, skills, taxonomy);
+  const covered = preferred.filter(requirement => {
+    const match = resolved.find(m => m.requirement === requirement);
+    if (match) return match.satisfiedBy !== null;
+
+    // Requirements naming no known skill fall back to word matching
+    const requirementWords = words(requirement);
+    return skills.some(skill => {
+      const skillWords = words(skill);
+      return skillWords.length > 0 && skillWords.every(w => requirementWords.includes(w));
+    });
+  }).length;
+  return [covered / preferred.length, `${covered}/${preferred.length} preferred covered`];
+}
+
+function experienceComponent(screening: ResumeScreening, job: JobDescription): [number, string] {
+  const required = requiredYearsOf(job);
+  const relevant = screening.experience_analysis.relevant_years;
+  if (required === 0) return [1, 'no years requirement'];
+  return [Math.min(1, relevant / required), `${relevant} relevant of ${required} required years`];
+}
+
+function educationComponent(screening: ResumeScreening): [number, string] {
+  const meets = screening.education_analysis.meets_education_requirement;
+  return [meets ? 1 : 0, meets ? 'meets requirement' : 'does not meet requirement'];
+}
+
+/**
+ * computeFitScore - Recompute fit_score from the screening's structured fields
+ *
+ * @param screening - Validated screening
+ * @param job - Job the screening was for
+ * @param options - Weight and divergence threshold overrides
+ * @returns Both scores, their bands and the per-component breakdown
+ */
+export function computeFitScore(
+  screening: ResumeScreening,
+  job: JobDescription,
+  options: ScoringOptions = {}
+): ScoreReport {
+  const weights: ScoreWeights = { ...weightedScoringConfig.weights, ...options.weights };
+  const threshold = options.divergenceThreshold ?? weightedScoringConfig.divergenceThreshold;
+  const taxonomy = options.taxonomy ?? defaultSkillTaxonomy;
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+  const values: Record<ScoreComponentName, [number, string]> = {
+    screeningSteps: stepsComponent(screening, job),
+    requiredSkills: requiredSkillsComponent(screening, job, taxonomy),
+    preferredSkills: preferredSkillsComponent(screening, job, taxonomy),
+    experience: experienceComponent(screening, job),
+    education: educationComponent(screening)
+  };
+
+  const components: ScoreComponent[] = (Object.keys(values) as ScoreComponentName[]).map(name => {
+    const [value, detail] = values[name];
+    return {
+      name,
+      weight: weights[name],
+      value: round2(value),
+      points: totalWeight === 0 ? 0 : round2((weights[name] / totalWeight) * value * 100),
+      detail
+    };
+  });
+
+  const computedScore = Math.round(components.reduce((sum, c) => sum + c.points, 0));
+  const divergence = computedScore - screening.fit_score;
+
+  return {
+    modelScore: screening.fit_score,
+    computedScore,
+    divergence,
+    diverged: Math.abs(divergence) > threshold,
+    modelFit: screening.overall_fit,
+    computedFit: fitBandForScore(computedScore),
+    components
+  };
+}
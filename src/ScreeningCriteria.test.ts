@@ -0,0 +1,102 @@
+/**
+ * Screening Criteria Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { buildScreeningSchema, validateCriteriaCoverage } from './ScreeningCriteria.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { ResumeScreeningSchema } from './SGRSchema.js';
+import { JobDescriptionSchema } from './InputSchemas.js';
+import { juniorFrontendDeveloper, seniorSoftwareEngineer } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const criteria = juniorFrontendDeveloper.screeningCriteria!;
+
+/**
+ * The part of the generated JSON Schema these tests inspect
+ */
+interface StepsJsonSchema {
+  properties: {
+    screening_steps: {
+      minItems: number;
+      maxItems: number;
+      items: { properties: { criterion_id: { enum: string[] } } };
+    };
+  };
+}
+const provider = new MockProvider();
+
+describe('buildScreeningSchema', () => {
+  it('should fall back to the generic schema when the job declares no criteria', () => {
+    expect(buildScreeningSchema(seniorSoftwareEngineer.screeningCriteria)).toBe(ResumeScreeningSchema);
+  });
+
+  it('should require exactly one step per criterion with a constrained criterion_id', () => {
+    const json = zodToJsonSchema(buildScreeningSchema(criteria), { $refStrategy: 'none' }) as StepsJsonSchema;
+    const steps = json.properties.screening_steps;
+
+    expect(steps.minItems).toBe(criteria.length);
+    expect(steps.maxItems).toBe(criteria.length);
+    expect(steps.items.properties.criterion_id.enum).toEqual(criteria.map(c => c.id));
+  });
+});
+
+describe('validateCriteriaCoverage', () => {
+  const screening = buildMockScreening(sampleResumes.potentialFit, juniorFrontendDeveloper);
+
+  it('should accept the mock screening', () => {
+    expect(screening.screening_steps.map(s => s.criterion_id)).toEqual(criteria.map(c => c.id));
+    expect(validateCriteriaCoverage(screening, criteria)).toEqual([]);
+  });
+
+  it('should flag missing, duplicated and miscategorised criteria', () => {
+    const [first, second] = screening.screening_steps;
+    const broken = {
+      ...screening,
+      screening_steps: [first, { ...first, step_number: 2 }, { ...second, step_number: 3, evaluation_category: 'education' as const }]
+    };
+
+    expect(validateCriteriaCoverage(broken, criteria).map(i => i.rule)).toEqual([
+      'criterion_duplicated',
+      'criterion_category_mismatch',
+      'criterion_missing',
+      'criterion_missing'
+    ]);
+  });
+});
+
+describe('runResumeScreening with criteria', () => {
+  it('should return one step per declared criterion', async () => {
+    const result = await runResumeScreening(sampleResumes.strongMatch, juniorFrontendDeveloper, { provider });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.screening_steps).toHaveLength(criteria.length);
+  });
+
+  it('should re-ask when a criterion is skipped', async () => {
+    let calls = 0;
+    const skipping = new MockProvider({
+      handlers: {
+        ResumeScreening: () => {
+          const screening = buildMockScreening(sampleResumes.strongMatch, juniorFrontendDeveloper);
+          if (++calls > 1) return screening;
+          const steps = screening.screening_steps.map((s, i) => i === 1 ? { ...s, criterion_id: criteria[0].id } : s);
+          return { ...screening, screening_steps: steps };
+        }
+      }
+    });
+
+    const result = await runResumeScreening(sampleResumes.strongMatch, juniorFrontendDeveloper, { provider: skipping, sleep: async () => {} });
+    expect(result.success).toBe(true);
+    expect(result.metadata?.attempts[0].outcome).toBe('semantic_error');
+  });
+
+  it('should reject duplicate criterion ids in a job', () => {
+    const job = { ...juniorFrontendDeveloper, screeningCriteria: [criteria[0], criteria[0]] };
+    expect(JobDescriptionSchema.safeParse(job).success).toBe(false);
+  });
+});
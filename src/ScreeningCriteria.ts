@@ -0,0 +1,105 @@
+/**
+ * ScreeningCriteria.ts - Job-Specific Screening Steps
+ *
+ * By default a screening covers the generic evaluationCategories with at
+ * least schemaConfig.minScreeningSteps steps. A JobDescription can instead
+ * declare its own weighted screeningCriteria (a portfolio review, a
+ * security clearance, ...). For such jobs the response schema is built per
+ * job:
+ *
+ * - screening_steps must have exactly one entry per criterion
+ * - each step's criterion_id is constrained to the declared IDs
+ *
+ * Constrained Decoding cannot express "each ID exactly once", so
+ * validateCriteriaCoverage closes that gap as a semantic check.
+ */
+
+import { z } from 'zod';
+import { ResumeScreeningSchema, ScreeningStepSchema, ResumeScreening } from './SGRSchema.js';
+import { SemanticIssue } from './SemanticValidation.js';
+import { ScreeningCriterionSchema } from './InputSchemas.js';
+
+export type ScreeningCriterion = z.infer<typeof ScreeningCriterionSchema>;
+
+export type CriteriaRule =
+  | 'criterion_missing'
+  | 'criterion_duplicated'
+  | 'criterion_category_mismatch';
+
+/**
+ * buildScreeningSchema - Response schema for a job's screening criteria
+ *
+ * @param criteria - The job's screeningCriteria (undefined or empty for the generic schema)
+ * @returns ResumeScreeningSchema, or a variant with one step per criterion
+ */
+export function buildScreeningSchema(criteria: ScreeningCriterion[] | undefined): z.ZodType<ResumeScreening> {
+  if (!criteria || criteria.length === 0) return ResumeScreeningSchema;
+
+  const ids = criteria.map(c => c.id) as [string, ...string[]];
+  const step = ScreeningStepSchema.extend({
+    criterion_id: z.enum(ids)
+      .describe('ID of the screening criterion this step evaluates')
+  });
+
+  return ResumeScreeningSchema.extend({
+    screening_steps: z.array(step)
+      .length(criteria.length)
+      .describe(`Exactly one step per screening criterion, in this order: ${ids.join(', ')}`)
+  });
+}
+
+/**
+ * Format the criteria as a prompt section
+ */
+export function formatCriteriaForPrompt(criteria: ScreeningCriterion[]): string {
+  return criteria
+    .map((c, i) => `${i + 1}. ${c.id} - ${c.label} (${c.category}, weight ${c.weight}): ${c.description}`)
+    .join('\n');
+}
+
+/**
+ * validateCriteriaCoverage - Every criterion evaluated exactly once, in its category
+ *
+ * @returns All violations (empty when the steps match the criteria)
+ */
+export function validateCriteriaCoverage(
+  screening: ResumeScreening,
+  criteria: ScreeningCriterion[]
+): SemanticIssue<CriteriaRule>[] {
+  const issues: SemanticIssue<CriteriaRule>[] = [];
+  const seen = new Set<string>();
+
+  screening.screening_steps.forEach((step, index) => {
+    const criterion = criteria.find(c => c.id === step.criterion_id);
+    if (!criterion) return;
+
+    if (seen.has(criterion.id)) {
+      issues.push({
+        rule: 'criterion_duplicated',
+        path: ['screening_steps', index, 'criterion_id'],
+        message: `criterion '${criterion.id}' is evaluated by more than one step`
+      });
+    }
+    seen.add(criterion.id);
+
+    if (step.evaluation_category !== criterion.category) {
+      issues.push({
+        rule: 'criterion_category_mismatch',
+        path: ['screening_steps', index, 'evaluation_category'],
+        message: `criterion '${criterion.id}' is in category '${criterion.category}', got '${step.evaluation_category}'`
+      });
+    }
+  });
+
+  for (const criterion of criteria) {
+    if (!seen.has(criterion.id)) {
+      issues.push({
+        rule: 'criterion_missing',
+        path: ['screening_steps'],
+        message: `no step evaluates criterion '${criterion.id}' (${criterion.label})`
+      });
+    }
+  }
+
+  return issues;
+}
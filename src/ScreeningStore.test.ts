@@ -0,0 +1,134 @@
+/**
+ * Screening Store Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ScreeningStore, CorruptStoreError, RecordNotFoundError, diffScreenings, formatFieldChange } from './ScreeningStore.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { SCREENING_PROMPT_ID, SCREENING_PROMPT_VERSION } from './PromptRegistry.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { defaultJob, juniorFrontendDeveloper } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const provider = new MockProvider();
+
+function storePath(): string {
+  return join(mkdtempSync(join(tmpdir(), 'sgr-store-')), 'nested', 'screenings.jsonl');
+}
+
+function clock(): () => Date {
+  let minute = 0;
+  return () => new Date(Date.UTC(2024, 0, 1, 9, minute++));
+}
+
+describe('diffScreenings', () => {
+  it('should report changed leaf fields with their paths', () => {
+    const before = buildMockScreening(sampleResumes.strongMatch, defaultJob);
+    const after = {
+      ...before,
+      fit_score: before.fit_score - 10,
+      screening_steps: before.screening_steps.map((s, i) => (i === 1 ? { ...s, requirement_met: !s.requirement_met } : s)),
+      strengths: [...before.strengths, 'Clear writing']
+    };
+
+    const changes = diffScreenings(before, after);
+    expect(changes.map(c => c.path)).toEqual([
+      ['screening_steps', 1, 'requirement_met'],
+      ['fit_score'],
+      ['strengths']
+    ]);
+    expect(formatFieldChange(changes[1])).toBe(`fit_score: ${before.fit_score} -> ${before.fit_score - 10}`);
+    expect(diffScreenings(before, structuredClone(before))).toEqual([]);
+  });
+});
+
+describe('ScreeningStore', () => {
+  it('should store screenings with their inputs and metadata', async () => {
+    const store = new ScreeningStore(storePath(), clock());
+    const result = await runResumeScreening(sampleResumes.strongMatch, defaultJob, { provider });
+    const { record, previous, changes } = store.save(result, sampleResumes.strongMatch, defaultJob);
+
+    expect(record).toMatchObject({
+      candidateId: sampleResumes.strongMatch.candidateId,
+      jobId: defaultJob.jobId,
+      screenedAt: '2024-01-01T09:00:00.000Z',
+      model: result.metadata?.model,
+      promptId: SCREENING_PROMPT_ID,
+      promptVersion: SCREENING_PROMPT_VERSION,
+      success: true,
+      resume: sampleResumes.strongMatch,
+      job: defaultJob
+    });
+    expect(record.tokensUsed).toBeGreaterThan(0);
+    expect(previous).toBeNull();
+    expect(changes).toEqual([]);
+  });
+
+  it('should persist across instances and query by candidate and job', async () => {
+    const path = storePath();
+    const writer = new ScreeningStore(path, clock());
+    for (const resume of Object.values(sampleResumes)) {
+      writer.save(await runResumeScreening(resume, defaultJob, { provider }), resume, defaultJob);
+    }
+    const alex = sampleResumes.strongMatch;
+    writer.save(await runResumeScreening(alex, juniorFrontendDeveloper, { provider }), alex, juniorFrontendDeveloper);
+
+    const reader = new ScreeningStore(path);
+    expect(reader.size).toBe(4);
+    expect(reader.find({ jobId: defaultJob.jobId })).toHaveLength(3);
+    expect(reader.find({ candidateId: alex.candidateId }).map(r => r.jobId)).toEqual([defaultJob.jobId, juniorFrontendDeveloper.jobId]);
+    expect(reader.latest(alex.candidateId, juniorFrontendDeveloper.jobId)?.screening?.job_id).toBe(juniorFrontendDeveloper.jobId);
+  });
+
+  it('should diff a re-screen against the last successful screening', async () => {
+    const store = new ScreeningStore(storePath(), clock());
+    const resume = sampleResumes.potentialFit;
+    const first = store.save(await runResumeScreening(resume, defaultJob, { provider }), resume, defaultJob);
+
+    const failing = new MockProvider({ handlers: { ResumeScreening: () => 'not json' } });
+    const failed = await runResumeScreening(resume, defaultJob, { provider: failing, retry: { maxRetries: 0, fallbackModel: null } });
+    expect(store.save(failed, resume, defaultJob).record.screening).toBeNull();
+
+    const shifted = new MockProvider({
+      handlers: { ResumeScreening: () => ({ ...buildMockScreening(resume, defaultJob), fit_score: 50 }) }
+    });
+    const rescreen = store.save(await runResumeScreening(resume, defaultJob, { provider: shifted }), resume, defaultJob);
+
+    expect(rescreen.previous?.id).toBe(first.record.id);
+    expect(rescreen.changes).toEqual([
+      { path: ['fit_score'], before: first.record.screening?.fit_score, after: 50 }
+    ]);
+  });
+
+  it('should apply appended labels and list the latest approved screenings', async () => {
+    const path = storePath();
+    const store = new ScreeningStore(path, clock());
+    const alex = sampleResumes.strongMatch;
+    const first = store.save(await runResumeScreening(alex, defaultJob, { provider }), alex, defaultJob);
+    const second = store.save(await runResumeScreening(alex, defaultJob, { provider }), alex, defaultJob);
+
+    store.label(first.record.id, { approved: true, reviewer: 'sam' });
+    store.label(second.record.id, { approved: false, reviewer: 'sam', note: 'Missed the Kubernetes gap' });
+    expect(store.approved().map(r => r.id)).toEqual([first.record.id]);
+
+    store.label(second.record.id, { approved: true, reviewer: 'kim' });
+    const reloaded = new ScreeningStore(path);
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.approved().map(r => r.id)).toEqual([second.record.id]);
+    expect(reloaded.find()[1].label).toEqual({ approved: true, reviewer: 'kim', labeledAt: '2024-01-01T09:04:00.000Z' });
+    expect(() => store.label('missing', { approved: true, reviewer: 'sam' })).toThrow(RecordNotFoundError);
+  });
+
+  it('should reject a corrupt store file with the line number', () => {
+    const path = storePath().replace('nested/', '');
+    writeFileSync(path, `${JSON.stringify({ candidateId: 'C', jobId: 'J' })}\n{oops\n`);
+
+    expect(() => new ScreeningStore(path).find()).toThrow(CorruptStoreError);
+    expect(() => new ScreeningStore(path).find()).toThrow(/:2: not a valid screening record/);
+  });
+});
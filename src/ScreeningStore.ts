@@ -0,0 +1,334 @@
+/**
+ * ScreeningStore.ts - File-backed Screening History
+ *
+ * Persists every LLMAgentResult with the inputs that produced it, so
+ * screenings can be looked up later and re-screens can be compared:
+ *
+ *   const store = new ScreeningStore('data/screenings.jsonl');
+ *   const { changes } = store.save(result, resume, job);
+ *   changes.map(formatFieldChange)
+ *   // ['fit_score: 72 -> 81', 'recommended_action: "hold_for_review" -> "advance_to_interview"']
+ *
+ * The file is JSON Lines, append-only: one StoredScreening per line, oldest
+ * first. Records are never rewritten, so the file is the full history.
+ * Reviewer labels (see label()) are appended as their own lines and applied
+ * to the earlier record on load; approved screenings become few-shot
+ * examples for later screenings.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { ResumeScreening } from './SGRSchema.js';
+import { LLMAgentResult } from './LLMAgent.js';
+import { formatIssuePath } from './SchemaRepair.js';
+import { storeConfig } from './config.js';
+import { Resume } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+/**
+ * StoredScreening - One screening run with its inputs
+ */
+export interface StoredScreening {
+  id: string;
+  candidateId: string;
+  jobId: string;
+  screenedAt: string;
+  model: string | null;
+  tokensUsed: number;
+  promptId: string | null;
+  promptVersion: string | null;
+  success: boolean;
+  resume: Resume;
+  job: JobDescription;
+  screening: ResumeScreening | null;
+  error: LLMAgentResult['error'] | null;
+  // Latest reviewer verdict (absent until labeled)
+  label?: ScreeningLabel;
+}
+
+/**
+ * ScreeningLabel - A reviewer's verdict on a stored screening
+ */
+export interface ScreeningLabel {
+  // The screening is correct and may be shown to the model as an example
+  approved: boolean;
+  reviewer: string;
+  labeledAt: string;
+  note?: string;
+}
+
+/**
+ * LabelLine - Store line attaching a label to an earlier record
+ */
+interface LabelLine {
+  labelFor: string;
+  label: ScreeningLabel;
+}
+
+/**
+ * FieldChange - One field that differs between two screenings
+ */
+export interface FieldChange {
+  path: (string | number)[];
+  // undefined when the field was added / removed
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * SaveResult - The stored record and how it differs from the last screening
+ */
+export interface SaveResult {
+  record: StoredScreening;
+  // Latest earlier successful screening of the same candidate for the same job
+  previous: StoredScreening | null;
+  // Field-level changes since `previous` (empty for first screenings and failures)
+  changes: FieldChange[];
+}
+
+export interface ScreeningQuery {
+  candidateId?: string;
+  jobId?: string;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * ScreeningStoreError - The store file could not be read or written
+ */
+export class ScreeningStoreError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(message);
+    this.name = 'ScreeningStoreError';
+  }
+}
+
+/**
+ * CorruptStoreError - A line in the store file is not a stored screening
+ */
+export class CorruptStoreError extends ScreeningStoreError {
+  constructor(path: string, readonly line: number) {
+    super(`${path}:${line}: not a valid screening record`, path);
+    this.name = 'CorruptStoreError';
+  }
+}
+
+/**
+ * RecordNotFoundError - No stored screening has this ID
+ */
+export class RecordNotFoundError extends ScreeningStoreError {
+  constructor(path: string, readonly recordId: string) {
+    super(`${path}: no screening with id ${recordId}`, path);
+    this.name = 'RecordNotFoundError';
+  }
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScalarArray(value: unknown[]): boolean {
+  return value.every(item => item === null || typeof item !== 'object');
+}
+
+function diffValues(before: unknown, after: unknown, path: (string | number)[], changes: FieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) diffValues(before[key], after[key], [...path, key], changes);
+    return;
+  }
+
+  // Lists of objects (steps, work history, ...) are compared entry by entry;
+  // lists of strings are reported as a whole, which reads better than per index
+  if (Array.isArray(before) && Array.isArray(after) && !(isScalarArray(before) && isScalarArray(after))) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffValues(before[i], after[i], [...path, i], changes);
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+/**
+ * diffScreenings - Field-level differences between two screenings
+ *
+ * @returns Changed leaf fields in schema order (empty if identical)
+ */
+export function diffScreenings(before: ResumeScreening, after: ResumeScreening): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues(before, after, [], changes);
+  return changes;
+}
+
+/**
+ * Render a change as "path: before -> after"
+ */
+export function formatFieldChange(change: FieldChange): string {
+  const show = (value: unknown) => (value === undefined ? '(none)' : JSON.stringify(value));
+  return `${formatIssuePath(change.path)}: ${show(change.before)} -> ${show(change.after)}`;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * ScreeningStore - Append-only screening history in a JSON Lines file
+ */
+export class ScreeningStore {
+  private records: StoredScreening[] | null = null;
+
+  constructor(
+    readonly path: string = storeConfig.path,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Store a screening result and diff it against the previous screening
+   *
+   * @param result - Result from runResumeScreening (successful or not)
+   * @param resume - Resume that was screened
+   * @param job - Job it was screened against
+   * @throws ScreeningStoreError if the file cannot be written
+   */
+  save(result: LLMAgentResult, resume: Resume, job: JobDescription): SaveResult {
+    const records = this.load();
+    const previous = this.latest(resume.candidateId, job.jobId) ?? null;
+
+    const record: StoredScreening = {
+      id: randomUUID(),
+      candidateId: resume.candidateId,
+      jobId: job.jobId,
+      screenedAt: this.now().toISOString(),
+      model: result.metadata?.model ?? null,
+      tokensUsed: result.metadata?.tokensUsed ?? 0,
+      promptId: result.metadata?.promptId ?? null,
+      promptVersion: result.metadata?.promptVersion ?? null,
+      success: result.success,
+      resume,
+      job,
+      screening: result.success && result.data ? result.data : null,
+      error: result.error ?? null
+    };
+
+    this.append(record);
+    records.push(record);
+
+    const changes = previous?.screening && record.screening
+      ? diffScreenings(previous.screening, record.screening)
+      : [];
+    return { record, previous, changes };
+  }
+
+  /**
+   * Record a reviewer verdict on a stored screening
+   *
+   * Only approved, successful screenings are used as few-shot examples.
+   * Labeling again replaces the earlier verdict.
+   *
+   * @throws RecordNotFoundError if no screening has this ID
+   * @throws ScreeningStoreError if the file cannot be written
+   */
+  label(recordId: string, verdict: Omit<ScreeningLabel, 'labeledAt'>): StoredScreening {
+    const record = this.load().find(r => r.id === recordId);
+    if (!record) throw new RecordNotFoundError(this.path, recordId);
+
+    const label: ScreeningLabel = { ...verdict, labeledAt: this.now().toISOString() };
+    this.append({ labelFor: recordId, label } satisfies LabelLine);
+    record.label = label;
+    return record;
+  }
+
+  /**
+   * Approved successful screenings, latest per candidate and job
+   */
+  approved(): StoredScreening[] {
+    const latest = new Map<string, StoredScreening>();
+    for (const record of this.load()) {
+      if (record.success && record.screening && record.label?.approved) {
+        latest.set(`${record.candidateId}\u0000${record.jobId}`, record);
+      }
+    }
+    return [...latest.values()];
+  }
+
+  /**
+   * Stored screenings matching the query, oldest first
+   */
+  find(query: ScreeningQuery = {}): StoredScreening[] {
+    return this.load().filter(r =>
+      (query.candidateId === undefined || r.candidateId === query.candidateId) &&
+      (query.jobId === undefined || r.jobId === query.jobId)
+    );
+  }
+
+  /**
+   * Most recent successful screening of a candidate for a job
+   */
+  latest(candidateId: string, jobId: string): StoredScreening | undefined {
+    return this.find({ candidateId, jobId }).filter(r => r.success).pop();
+  }
+
+  get size(): number {
+    return this.load().length;
+  }
+
+  private append(line: StoredScreening | LabelLine): void {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, `${JSON.stringify(line)}\n`);
+    } catch (e) {
+      throw new ScreeningStoreError(`Cannot write ${this.path}: ${e instanceof Error ? e.message : String(e)}`, this.path);
+    }
+  }
+
+  /**
+   * Read the file once; later calls use the in-memory copy
+   *
+   * @throws CorruptStoreError if a line is not a screening record, or labels an unknown one
+   */
+  private load(): StoredScreening[] {
+    if (this.records) return this.records;
+    if (!existsSync(this.path)) return (this.records = []);
+
+    let content: string;
+    try {
+      content = readFileSync(this.path, 'utf-8');
+    } catch (e) {
+      throw new ScreeningStoreError(`Cannot read ${this.path}: ${e instanceof Error ? e.message : String(e)}`, this.path);
+    }
+
+    const records: StoredScreening[] = [];
+    content.split('\n').forEach((line, i) => {
+      if (!line.trim()) return;
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new CorruptStoreError(this.path, i + 1);
+      }
+      if (isPlainObject(record) && typeof record.labelFor === 'string' && isPlainObject(record.label)) {
+        const recordId = record.labelFor;
+        const target = records.find(r => r.id === recordId);
+        if (!target) throw new CorruptStoreError(this.path, i + 1);
+        target.label = record.label as unknown as ScreeningLabel;
+        return;
+      }
+      if (!isPlainObject(record) || typeof record.candidateId !== 'string' || typeof record.jobId !== 'string') {
+        throw new CorruptStoreError(this.path, i + 1);
+      }
+      records.push(record as unknown as StoredScreening);
+    });
+    return (this.records = records);
+  }
+}
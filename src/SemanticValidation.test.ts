@@ -0,0 +1,78 @@
+/**
+ * Semantic Validation Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { validateScreeningSemantics, fitBandForScore } from './SemanticValidation.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { MockProvider } from './MockProvider.js';
+import { ResumeScreening, exampleResumeScreening } from './SGRSchema.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { strongMatchCandidate } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const rulesOf = (screening: ResumeScreening) => validateScreeningSemantics(screening).map(i => i.rule);
+
+describe('fitBandForScore', () => {
+  it('should follow scoringConfig.thresholds', () => {
+    expect([95, 80, 79, 60, 59, 40, 39, 0].map(fitBandForScore)).toEqual([
+      'strong_match', 'strong_match', 'qualified', 'qualified',
+      'potential_fit', 'potential_fit', 'not_qualified', 'not_qualified'
+    ]);
+  });
+});
+
+describe('validateScreeningSemantics', () => {
+  it('should accept the example screening', () => {
+    expect(validateScreeningSemantics(exampleResumeScreening)).toEqual([]);
+  });
+
+  it('should flag a fit band that contradicts the score', () => {
+    expect(rulesOf({ ...exampleResumeScreening, fit_score: 10 })).toEqual(['fit_band_mismatch']);
+  });
+
+  it('should require a gap when a requirement is not met', () => {
+    const steps = exampleResumeScreening.screening_steps.map((step, i) =>
+      i === 1 ? { ...step, requirement_met: false, gap_identified: null } : step
+    );
+    const issues = validateScreeningSemantics({ ...exampleResumeScreening, screening_steps: steps });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toEqual(['screening_steps', 1, 'gap_identified']);
+  });
+
+  it('should flag relevant years above total years', () => {
+    const experience = { ...exampleResumeScreening.experience_analysis, relevant_years: 9 };
+    expect(rulesOf({ ...exampleResumeScreening, experience_analysis: experience })).toEqual(['relevant_years_exceed_total']);
+  });
+
+  it('should flag rejecting a strong match', () => {
+    expect(rulesOf({ ...exampleResumeScreening, recommended_action: 'reject' })).toEqual(['reject_with_strong_match']);
+  });
+});
+
+describe('runResumeScreening semantic errors', () => {
+  it('should report inconsistent output as semantic_error', async () => {
+    const provider = new MockProvider({
+      handlers: { ResumeScreening: () => ({ ...exampleResumeScreening, fit_score: 10 }) }
+    });
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, {
+      provider,
+      retry: { maxRetries: 0, fallbackModel: null }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('semantic_error');
+    expect(result.error?.details?.[0]).toMatchObject({ code: 'custom', path: ['overall_fit'] });
+  });
+
+  it('should skip the rules when semanticValidation is false', async () => {
+    const provider = new MockProvider({
+      handlers: { ResumeScreening: () => ({ ...exampleResumeScreening, fit_score: 10 }) }
+    });
+
+    const result = await runResumeScreening(strongMatchCandidate, defaultJob, { provider, semanticValidation: false });
+    expect(result.success).toBe(true);
+  });
+});
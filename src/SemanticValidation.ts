@@ -0,0 +1,118 @@
+/**
+ * SemanticValidation.ts - Cross-Field Rules on Top of ResumeScreeningSchema
+ *
+ * Constrained Decoding guarantees each field is individually valid, but not
+ * that the fields agree with each other: the schema happily accepts
+ * overall_fit 'strong_match' with fit_score 10. These rules catch such
+ * contradictions after Zod parsing succeeds.
+ *
+ * Violations are reported as custom Zod issues so they flow through the
+ * same repair and re-ask machinery as schema violations.
+ */
+
+import { z } from 'zod';
+import { ResumeScreening, CandidateFit } from './SGRSchema.js';
+import { scoringConfig } from './config.js';
+
+/**
+ * SemanticRule - Identifier of each cross-field rule
+ */
+export type SemanticRule =
+  | 'fit_band_mismatch'
+  | 'missing_gap'
+  | 'relevant_years_exceed_total'
+  | 'reject_with_strong_match'
+  | 'step_numbering';
+
+/**
+ * SemanticIssue - A single cross-field violation
+ *
+ * Other agents (e.g. email drafting) reuse this shape with their own rule names.
+ */
+export interface SemanticIssue<Rule extends string = SemanticRule> {
+  rule: Rule;
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * fitBandForScore - Map a fit_score onto scoringConfig.thresholds
+ */
+export function fitBandForScore(score: number): CandidateFit {
+  const { thresholds } = scoringConfig;
+  if (score >= thresholds.strongMatch) return 'strong_match';
+  if (score >= thresholds.qualified) return 'qualified';
+  if (score >= thresholds.potentialFit) return 'potential_fit';
+  return 'not_qualified';
+}
+
+/**
+ * validateScreeningSemantics - Run every cross-field rule
+ *
+ * @param screening - A screening that already passed ResumeScreeningSchema
+ * @returns All violations (empty when consistent)
+ */
+export function validateScreeningSemantics(screening: ResumeScreening): SemanticIssue[] {
+  const issues: SemanticIssue[] = [];
+
+  // The fit band must match the score
+  const expectedFit = fitBandForScore(screening.fit_score);
+  if (screening.overall_fit !== expectedFit) {
+    issues.push({
+      rule: 'fit_band_mismatch',
+      path: ['overall_fit'],
+      message: `overall_fit '${screening.overall_fit}' does not match fit_score ${screening.fit_score} (expected '${expectedFit}')`
+    });
+  }
+
+  // Unmet requirements must name the gap; steps must be numbered 1..n
+  screening.screening_steps.forEach((step, index) => {
+    if (!step.requirement_met && !step.gap_identified?.trim()) {
+      issues.push({
+        rule: 'missing_gap',
+        path: ['screening_steps', index, 'gap_identified'],
+        message: 'gap_identified must describe the gap when requirement_met is false'
+      });
+    }
+    if (step.step_number !== index + 1) {
+      issues.push({
+        rule: 'step_numbering',
+        path: ['screening_steps', index, 'step_number'],
+        message: `step_number should be ${index + 1}, got ${step.step_number}`
+      });
+    }
+  });
+
+  // Relevant experience is a subset of total experience
+  const { relevant_years, total_years } = screening.experience_analysis;
+  if (relevant_years > total_years) {
+    issues.push({
+      rule: 'relevant_years_exceed_total',
+      path: ['experience_analysis', 'relevant_years'],
+      message: `relevant_years (${relevant_years}) cannot exceed total_years (${total_years})`
+    });
+  }
+
+  // A strong match is never rejected outright
+  if (screening.recommended_action === 'reject' && screening.overall_fit === 'strong_match') {
+    issues.push({
+      rule: 'reject_with_strong_match',
+      path: ['recommended_action'],
+      message: "recommended_action 'reject' contradicts overall_fit 'strong_match'"
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Convert semantic issues to custom Zod issues (for LLMAgentResult.error.details)
+ */
+export function toZodIssues(issues: SemanticIssue<string>[]): z.ZodIssue[] {
+  return issues.map(issue => ({
+    code: z.ZodIssueCode.custom,
+    path: issue.path,
+    message: issue.message,
+    params: { rule: issue.rule }
+  }));
+}
@@ -0,0 +1,98 @@
+/**
+ * Skill Taxonomy Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SkillTaxonomy,
+  SKILL_DEFINITIONS,
+  defaultSkillTaxonomy as taxonomy,
+  normalizeScreeningSkills,
+  matchSkillRequirements
+} from './SkillTaxonomy.js';
+import { runResumeScreening } from './LLMAgent.js';
+import { verifyGrounding } from './EvidenceGrounding.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { defaultJob } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('SkillTaxonomy', () => {
+  it('should map aliases and casing to one canonical name', () => {
+    expect(['TS', 'TypeScript', 'typescript', ' typescript '].map(s => taxonomy.normalize(s))).toEqual(Array(4).fill('TypeScript'));
+    expect(taxonomy.normalize('k8s')).toBe('Kubernetes');
+    expect(taxonomy.normalize('Amazon Web Services')).toBe('AWS');
+    expect(taxonomy.normalize('Elixir')).toBe('Elixir');
+  });
+
+  it('should let children satisfy their ancestors', () => {
+    expect(taxonomy.ancestors('Kubernetes')).toEqual(['container orchestration', 'containerization']);
+    expect(taxonomy.satisfies('k8s', 'containerization')).toBe(true);
+    expect(taxonomy.satisfies('containerization', 'Kubernetes')).toBe(false);
+    expect(taxonomy.satisfies('Postgres', 'SQL')).toBe(true);
+  });
+
+  it('should find skills in requirement text', () => {
+    expect(taxonomy.skillsIn('Experience with cloud platforms (AWS, GCP, or Azure)')).toEqual(['cloud platforms', 'AWS', 'GCP', 'Azure']);
+    expect(taxonomy.skillsIn('Basic understanding of HTML, CSS, and JavaScript')).toEqual(['HTML', 'CSS', 'JavaScript']);
+    expect(taxonomy.skillsIn('Built on Google Cloud Platform')).toEqual(['GCP']);
+    expect(taxonomy.skillsIn('Ready to go live')).toEqual([]);
+    expect(taxonomy.skillsIn('Services written in Go')).toEqual(['Go']);
+    expect(taxonomy.skillsIn('Backend services in Golang and golang tooling')).toEqual(['Go']);
+    expect(taxonomy.skillsIn('Let go of GOLANG')).toEqual(['Go']);
+  });
+
+  it('should accept custom definitions', () => {
+    const custom = new SkillTaxonomy([...SKILL_DEFINITIONS, { canonical: 'Elixir', aliases: ['ex'], parents: ['functional programming'] }]);
+    expect(custom.normalize('ex')).toBe('Elixir');
+    expect(custom.satisfies('Elixir', 'functional programming')).toBe(true);
+  });
+});
+
+describe('matchSkillRequirements', () => {
+  it('should resolve "cloud platforms (AWS, GCP, or Azure)" against any provider', () => {
+    const [match] = matchSkillRequirements(['Experience with cloud platforms (AWS, GCP, or Azure)'], ['Amazon Web Services']);
+    expect(match.satisfiedBy).toBe('AWS');
+  });
+
+  it('should skip requirements that name no known skill', () => {
+    expect(matchSkillRequirements(['Eagerness to learn and grow'], ['React'])).toEqual([]);
+  });
+});
+
+describe('normalizeScreeningSkills', () => {
+  it('should merge duplicate skills under the canonical name', () => {
+    const screening = buildMockScreening(sampleResumes.strongMatch, defaultJob);
+    const base = screening.skills_analysis.technical_skills[0];
+    const normalized = normalizeScreeningSkills({
+      ...screening,
+      skills_analysis: {
+        ...screening.skills_analysis,
+        technical_skills: [
+          { ...base, skill_name: 'TS', proficiency_level: 'intermediate', years_experience: 2 },
+          { ...base, skill_name: 'typescript', proficiency_level: 'expert', years_experience: null }
+        ],
+        required_skills_matched: ['ts', 'TypeScript']
+      }
+    });
+
+    expect(normalized.skills_analysis.technical_skills).toEqual([
+      expect.objectContaining({ skill_name: 'TypeScript', proficiency_level: 'expert', years_experience: 2 })
+    ]);
+    expect(normalized.skills_analysis.required_skills_matched).toEqual(['TypeScript']);
+  });
+
+  it('should be applied to screening results and stay grounded', async () => {
+    const resume = { ...sampleResumes.strongMatch, skills: ['TS', ...sampleResumes.strongMatch.skills.filter(s => s !== 'TypeScript')] };
+    const aliasing = new MockProvider({
+      handlers: { ResumeScreening: () => buildMockScreening(resume, defaultJob) }
+    });
+
+    const result = await runResumeScreening(resume, defaultJob, { provider: aliasing });
+    const names = result.data!.skills_analysis.technical_skills.map(s => s.skill_name);
+    expect(names).toContain('TypeScript');
+    expect(names).not.toContain('TS');
+    expect(verifyGrounding(result.data!, resume).unknownSkills).toEqual([]);
+  });
+});
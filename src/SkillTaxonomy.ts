@@ -0,0 +1,272 @@
+/**
+ * SkillTaxonomy.ts - Canonical Skill Names, Aliases and Hierarchy
+ *
+ * The model matches skills by string, so "TS", "TypeScript" and
+ * "typescript" look like three different skills, and a requirement such
+ * as "cloud platforms (AWS, GCP, or Azure)" is never resolved against a
+ * candidate who lists "Amazon Web Services". The taxonomy fixes this
+ * locally:
+ *
+ * - normalize() maps any alias to its canonical name
+ * - skillsIn() finds the canonical skills mentioned in free text
+ * - satisfies() lets a child skill satisfy its parent
+ *   (Kubernetes -> container orchestration -> containerization)
+ *
+ * Screenings are normalized after validation, and scoring and grounding
+ * match skills through the taxonomy.
+ */
+
+import { ResumeScreening, ExtractedSkill, ProficiencyLevel } from './SGRSchema.js';
+
+/**
+ * SkillDefinition - One canonical skill
+ */
+export interface SkillDefinition {
+  canonical: string;
+  aliases?: string[];
+  // Broader skills this one satisfies
+  parents?: string[];
+  // Canonical name only matched in free text when written exactly (e.g. "Go");
+  // aliases such as "golang" still match in any case
+  caseSensitive?: boolean;
+}
+
+/**
+ * Built-in taxonomy (extend with new SkillTaxonomy([...SKILL_DEFINITIONS, ...]))
+ */
+export const SKILL_DEFINITIONS: SkillDefinition[] = [
+  // Languages
+  { canonical: 'TypeScript', aliases: ['ts'] },
+  { canonical: 'JavaScript', aliases: ['js', 'ecmascript', 'es6'] },
+  { canonical: 'Python', aliases: ['py', 'python3'] },
+  { canonical: 'Go', aliases: ['golang'], caseSensitive: true },
+  { canonical: 'Java' },
+  { canonical: 'C#', aliases: ['csharp', 'c sharp'] },
+  { canonical: 'Rust' },
+  { canonical: 'SQL' },
+
+  // Frontend
+  { canonical: 'frontend frameworks', aliases: ['frontend framework', 'similar frontend framework', 'javascript frameworks'] },
+  { canonical: 'React', aliases: ['react.js', 'reactjs'], parents: ['frontend frameworks'] },
+  { canonical: 'Vue', aliases: ['vue.js', 'vuejs'], parents: ['frontend frameworks'] },
+  { canonical: 'Angular', aliases: ['angularjs'], parents: ['frontend frameworks'] },
+  { canonical: 'HTML', aliases: ['html5'] },
+  { canonical: 'CSS', aliases: ['css3'] },
+  { canonical: 'responsive design', aliases: ['responsive web design'] },
+
+  // Backend
+  { canonical: 'Node.js', aliases: ['node', 'nodejs', 'node js'] },
+  { canonical: 'GraphQL' },
+  { canonical: 'REST APIs', aliases: ['rest api', 'restful apis'] },
+
+  // Data stores
+  { canonical: 'PostgreSQL', aliases: ['postgres'], parents: ['SQL'] },
+  { canonical: 'MySQL', parents: ['SQL'] },
+  { canonical: 'MongoDB', aliases: ['mongo'] },
+  { canonical: 'Redis' },
+
+  // Cloud and infrastructure
+  { canonical: 'cloud platforms', aliases: ['cloud', 'cloud infrastructure', 'cloud platform'] },
+  { canonical: 'AWS', aliases: ['amazon web services'], parents: ['cloud platforms'] },
+  { canonical: 'GCP', aliases: ['google cloud', 'google cloud platform'], parents: ['cloud platforms'] },
+  { canonical: 'Azure', aliases: ['microsoft azure'], parents: ['cloud platforms'] },
+  { canonical: 'containerization', aliases: ['containers'] },
+  { canonical: 'container orchestration', parents: ['containerization'] },
+  { canonical: 'Docker', parents: ['containerization'] },
+  { canonical: 'Kubernetes', aliases: ['k8s'], parents: ['container orchestration'] },
+  { canonical: 'infrastructure as code', aliases: ['iac'] },
+  { canonical: 'Terraform', parents: ['infrastructure as code'] },
+  { canonical: 'CI/CD', aliases: ['ci cd', 'continuous integration'] },
+  { canonical: 'Git', aliases: ['github', 'gitlab'] },
+
+  // Architecture
+  { canonical: 'distributed systems' },
+  { canonical: 'microservices', aliases: ['microservice architecture'], parents: ['distributed systems'] },
+  { canonical: 'event-driven architecture', aliases: ['event-driven architectures', 'event driven architecture'] },
+  { canonical: 'Kafka', aliases: ['apache kafka'], parents: ['event-driven architecture'] }
+];
+
+/**
+ * Lookup key for a skill name: lowercase, single spaces, no surrounding punctuation
+ */
+function keyOf(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').replace(/^[^a-z0-9#]+|[^a-z0-9#+]+$/g, '').trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * SkillTaxonomy - Alias resolution and parent/child matching
+ */
+export class SkillTaxonomy {
+  private readonly byKey = new Map<string, SkillDefinition>();
+  private readonly patterns: Array<{ pattern: RegExp; canonical: string; length: number }> = [];
+
+  constructor(definitions: SkillDefinition[] = SKILL_DEFINITIONS) {
+    for (const definition of definitions) {
+      for (const name of [definition.canonical, ...(definition.aliases ?? [])]) {
+        this.byKey.set(keyOf(name), definition);
+        const exact = definition.caseSensitive && name === definition.canonical;
+        this.patterns.push({
+          pattern: new RegExp(
+            `(?<![A-Za-z0-9])${escapeRegExp(name)}(?![A-Za-z0-9])`,
+            exact ? 'g' : 'gi'
+          ),
+          canonical: definition.canonical,
+          length: name.length
+        });
+      }
+    }
+    // Longest names first, so "Google Cloud Platform" wins over "Google Cloud"
+    this.patterns.sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Definition for a name or alias (undefined if unknown)
+   */
+  resolve(name: string): SkillDefinition | undefined {
+    return this.byKey.get(keyOf(name));
+  }
+
+  /**
+   * Canonical name for a skill (unknown skills are returned trimmed)
+   */
+  normalize(name: string): string {
+    return this.resolve(name)?.canonical ?? name.trim();
+  }
+
+  /**
+   * All broader skills a skill satisfies, nearest first
+   */
+  ancestors(name: string): string[] {
+    const result: string[] = [];
+    const queue = [...(this.resolve(name)?.parents ?? [])];
+    while (queue.length > 0) {
+      const parent = this.normalize(queue.shift()!);
+      if (result.includes(parent)) continue;
+      result.push(parent);
+      queue.push(...(this.resolve(parent)?.parents ?? []));
+    }
+    return result;
+  }
+
+  /**
+   * Whether having `skill` meets a requirement for `required`
+   */
+  satisfies(skill: string, required: string): boolean {
+    const target = keyOf(this.normalize(required));
+    return keyOf(this.normalize(skill)) === target || this.ancestors(skill).some(a => keyOf(a) === target);
+  }
+
+  /**
+   * Canonical skills mentioned in free text, in order of appearance
+   */
+  skillsIn(text: string): string[] {
+    const taken: Array<[number, number]> = [];
+    const found: Array<{ index: number; canonical: string }> = [];
+
+    for (const { pattern, canonical } of this.patterns) {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (taken.some(([s, e]) => start < e && end > s)) continue;
+        taken.push([start, end]);
+        found.push({ index: start, canonical });
+      }
+    }
+
+    return [...new Set(found.sort((a, b) => a.index - b.index).map(f => f.canonical))];
+  }
+}
+
+/**
+ * Taxonomy built from SKILL_DEFINITIONS
+ */
+export const defaultSkillTaxonomy = new SkillTaxonomy();
+
+// ============================================================================
+// Screening Normalization
+// ============================================================================
+
+const PROFICIENCY_RANK: Record<ProficiencyLevel, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+  expert: 3
+};
+
+/**
+ * Canonical names, de-duplicated (first occurrence wins)
+ */
+export function normalizeSkillNames(names: string[], taxonomy: SkillTaxonomy = defaultSkillTaxonomy): string[] {
+  return [...new Set(names.map(name => taxonomy.normalize(name)))];
+}
+
+/**
+ * normalizeScreeningSkills - Canonical skill names throughout skills_analysis
+ *
+ * Duplicate technical_skills (e.g. "TS" and "TypeScript") are merged,
+ * keeping the higher proficiency and the longer experience.
+ */
+export function normalizeScreeningSkills(
+  screening: ResumeScreening,
+  taxonomy: SkillTaxonomy = defaultSkillTaxonomy
+): ResumeScreening {
+  const merged = new Map<string, ExtractedSkill>();
+  for (const skill of screening.skills_analysis.technical_skills) {
+    const name = taxonomy.normalize(skill.skill_name);
+    const existing = merged.get(name);
+    if (!existing) {
+      merged.set(name, { ...skill, skill_name: name });
+      continue;
+    }
+    const better = PROFICIENCY_RANK[skill.proficiency_level] > PROFICIENCY_RANK[existing.proficiency_level] ? skill : existing;
+    const years = [existing.years_experience, skill.years_experience].filter((y): y is number => y !== null);
+    merged.set(name, {
+      ...better,
+      skill_name: name,
+      years_experience: years.length > 0 ? Math.max(...years) : null
+    });
+  }
+
+  return {
+    ...screening,
+    skills_analysis: {
+      ...screening.skills_analysis,
+      technical_skills: [...merged.values()],
+      required_skills_matched: normalizeSkillNames(screening.skills_analysis.required_skills_matched, taxonomy)
+    }
+  };
+}
+
+/**
+ * SkillRequirementMatch - How a requirement's skills resolve against a candidate
+ */
+export interface SkillRequirementMatch {
+  requirement: string;
+  // Canonical skills the requirement names (any one satisfies it)
+  skills: string[];
+  // Candidate skill that satisfies it (null if none)
+  satisfiedBy: string | null;
+}
+
+/**
+ * matchSkillRequirements - Resolve requirement text against candidate skills
+ *
+ * Requirements that name no known skill are left out.
+ */
+export function matchSkillRequirements(
+  requirements: string[],
+  candidateSkills: string[],
+  taxonomy: SkillTaxonomy = defaultSkillTaxonomy
+): SkillRequirementMatch[] {
+  return requirements
+    .map(requirement => {
+      const skills = taxonomy.skillsIn(requirement);
+      const satisfiedBy = candidateSkills.find(c => skills.some(s => taxonomy.satisfies(c, s))) ?? null;
+      return { requirement, skills, satisfiedBy: satisfiedBy === null ? null : taxonomy.normalize(satisfiedBy) };
+    })
+    .filter(match => match.skills.length > 0);
+}
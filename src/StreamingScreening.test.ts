@@ -0,0 +1,114 @@
+/**
+ * Streaming Screening Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { IncrementalObjectParser, ScreeningStreamEvent, SectionEvent, streamResumeScreening } from './StreamingScreening.js';
+import { MockProvider, buildMockScreening } from './MockProvider.js';
+import { CompletionRequest, LLMProvider } from './LLMProvider.js';
+import { defaultJob, juniorFrontendDeveloper } from './examples/jobDescriptions.js';
+import { sampleResumes } from './examples/resumes.js';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const alex = sampleResumes.strongMatch;
+
+const isSection = (event: ScreeningStreamEvent): event is SectionEvent => event.type === 'section';
+
+async function collect(events: AsyncIterable<ScreeningStreamEvent>): Promise<ScreeningStreamEvent[]> {
+  const collected: ScreeningStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+describe('IncrementalObjectParser', () => {
+  it('should emit each top-level entry once the text after it arrives', () => {
+    const parser = new IncrementalObjectParser();
+    const text = '{"a": "x, {y} \\"z\\"", "b": {"c": [1, 2, {"d": "]"}]}, "e": 3.5, "f": null}';
+
+    const emitted: Array<[number, string]> = [];
+    for (let i = 0; i < text.length; i++) {
+      for (const [key] of parser.push(text[i])) emitted.push([i, key]);
+    }
+
+    expect(emitted.map(([, key]) => key)).toEqual(['a', 'b', 'e', 'f']);
+    expect(emitted.map(([i]) => text[i])).toEqual([',', ',', ',', '}']);
+    expect(parser.complete).toBe(true);
+
+    expect(new IncrementalObjectParser().push(text)).toEqual([
+      ['a', 'x, {y} "z"'],
+      ['b', { c: [1, 2, { d: ']' }] }],
+      ['e', 3.5],
+      ['f', null]
+    ]);
+  });
+
+  it('should skip malformed values and wait for unfinished ones', () => {
+    const parser = new IncrementalObjectParser();
+    expect(parser.push('{"a": tru, "b": [1, 2')).toEqual([]);
+    expect(parser.push(']')).toEqual([]);
+    expect(parser.push('}')).toEqual([['b', [1, 2]]]);
+  });
+});
+
+describe('streamResumeScreening', () => {
+  it('should emit sections in order, then the validated result', async () => {
+    const events = await collect(streamResumeScreening(alex, defaultJob, { provider: new MockProvider({ chunkSize: 16 }) }));
+    const expected = buildMockScreening(alex, defaultJob);
+
+    expect(events[0]).toEqual({ type: 'attempt', attempt: 1 });
+    const sections = events.filter(isSection);
+    expect(sections.map(e => e.section)).toEqual(Object.keys(expected));
+
+    const last = events[events.length - 1];
+    expect(last.type).toBe('result');
+    if (last.type !== 'result') return;
+    expect(last.result.success).toBe(true);
+    expect(last.result.data?.candidate_id).toBe(alex.candidateId);
+
+    const steps = sections.find(e => e.section === 'screening_steps');
+    expect(steps?.value).toEqual(expected.screening_steps);
+    expect(Object.keys(steps?.partial ?? {})).toEqual(Object.keys(expected).slice(0, Object.keys(expected).indexOf('screening_steps') + 1));
+  });
+
+  it("should check sections against the job's own criteria", async () => {
+    const job = { ...juniorFrontendDeveloper, screeningCriteria: juniorFrontendDeveloper.screeningCriteria!.slice(0, 2) };
+    const events = await collect(streamResumeScreening(sampleResumes.potentialFit, job, { provider: new MockProvider({ chunkSize: 64 }) }));
+
+    const steps = events.filter(isSection).find(e => e.section === 'screening_steps');
+    expect(steps?.value).toHaveLength(2);
+    expect(events.filter(isSection)).toHaveLength(Object.keys(buildMockScreening(sampleResumes.potentialFit, job)).length);
+    expect(events[events.length - 1]).toMatchObject({ type: 'result', result: { success: true } });
+  });
+
+  it('should start over when an attempt is retried', async () => {
+    let calls = 0;
+    const provider = new MockProvider({
+      chunkSize: 32,
+      handlers: {
+        ResumeScreening: request => {
+          const { resume, job } = request.context as { resume: typeof alex; job: typeof defaultJob };
+          const screening = buildMockScreening(resume, job);
+          return calls++ === 0 ? JSON.stringify(screening).slice(0, 400) : screening;
+        }
+      }
+    });
+
+    const events = await collect(streamResumeScreening(alex, defaultJob, { provider }));
+    expect(events.filter(e => e.type === 'attempt')).toEqual([
+      { type: 'attempt', attempt: 1 },
+      { type: 'attempt', attempt: 2 }
+    ]);
+    const last = events[events.length - 1];
+    expect(last.type === 'result' && last.result.metadata?.attempts.map(a => a.outcome)).toEqual(['parse_error', 'success']);
+  });
+
+  it('should fall back to complete() for providers that cannot stream', async () => {
+    const mock = new MockProvider();
+    const provider: LLMProvider = { name: 'blocking', complete: (request: CompletionRequest) => mock.complete(request) };
+
+    const events = await collect(streamResumeScreening(alex, defaultJob, { provider }));
+    expect(events.filter(isSection)).toHaveLength(Object.keys(buildMockScreening(alex, defaultJob)).length);
+    expect(events[events.length - 1]).toMatchObject({ type: 'result', result: { success: true } });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * StreamingScreening.ts - Screening Results Section by Section
+ *
+ * runResumeScreening only returns once the whole multi-kilobyte JSON has
+ * arrived. streamResumeScreening runs the same pipeline over a streamed
+ * completion and yields each top-level ResumeScreening section as soon as
+ * the model has finished writing it:
+ *
+ *   for await (const event of streamResumeScreening(resume, job)) {
+ *     if (event.type === 'section') render(event.section, event.value);
+ *     if (event.type === 'result') done(event.result);
+ *   }
+ *
+ * Sections are checked against their part of the job's schema (see
+ * buildScreeningSchema) before they are emitted, but they are the model's raw output: cross-field rules, skill
+ * normalization and un-redaction are only applied to the final result.
+ * A retry or repair round starts a new attempt, and sections from the
+ * previous attempt should be discarded.
+ */
+
+import { z } from 'zod';
+import { ResumeScreening, ResumeScreeningSchema } from './SGRSchema.js';
+import { LLMAgentResult, ScreeningOptions, runResumeScreening } from './LLMAgent.js';
+import { buildScreeningSchema } from './ScreeningCriteria.js';
+import { Resume } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+
+/**
+ * AttemptEvent - A new model attempt started; earlier sections are void
+ */
+export interface AttemptEvent {
+  type: 'attempt';
+  attempt: number;
+}
+
+/**
+ * SectionEvent - One top-level screening field finished streaming
+ */
+export type SectionEvent = {
+  [K in keyof ResumeScreening]-?: {
+    type: 'section';
+    attempt: number;
+    section: K;
+    value: ResumeScreening[K];
+    // Every section of this attempt so far, including this one
+    partial: Partial<ResumeScreening>;
+  };
+}[keyof ResumeScreening];
+
+/**
+ * ResultEvent - The fully validated result (always the last event)
+ */
+export interface ResultEvent {
+  type: 'result';
+  result: LLMAgentResult;
+}
+
+export type ScreeningStreamEvent = AttemptEvent | SectionEvent | ResultEvent;
+
+// ============================================================================
+// Incremental Parsing
+// ============================================================================
+
+/**
+ * IncrementalObjectParser - Top-level entries of a JSON object as text arrives
+ *
+ * Only tracks nesting, strings and the top-level key/value boundaries, so
+ * each push is linear in the new text. A value is parsed once the comma or
+ * closing brace after it arrives; values that do not parse are skipped.
+ */
+export class IncrementalObjectParser {
+  private text = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private expect: 'key' | 'colon' | 'value' = 'key';
+  private keyStart = -1;
+  private key: string | null = null;
+  private valueStart = -1;
+  private closed = false;
+
+  /**
+   * Add text; returns the entries completed by it, in order
+   */
+  push(delta: string): Array<[string, unknown]> {
+    this.text += delta;
+    const entries: Array<[string, unknown]> = [];
+
+    for (; this.position < this.text.length && !this.closed; this.position++) {
+      const i = this.position;
+      const char = this.text[i];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 1 && this.expect === 'key') {
+            this.key = JSON.parse(this.text.slice(this.keyStart, i + 1)) as string;
+            this.expect = 'colon';
+          }
+        }
+        continue;
+      }
+
+      if (/\s/.test(char)) continue;
+
+      if (this.depth === 0) {
+        if (char === '{') this.depth = 1;
+        continue;
+      }
+
+      const topLevel = this.depth === 1;
+      if (topLevel && this.expect === 'value' && this.valueStart < 0 && char !== ',' && char !== '}') {
+        this.valueStart = i;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          if (topLevel && this.expect === 'key') this.keyStart = i;
+          break;
+        case '{':
+        case '[':
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.depth === 0) {
+            this.finishValue(i, entries);
+            this.closed = true;
+          }
+          break;
+        case ':':
+          if (topLevel) this.expect = 'value';
+          break;
+        case ',':
+          if (topLevel) {
+            this.finishValue(i, entries);
+            this.expect = 'key';
+          }
+          break;
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * The closing brace of the object has been seen
+   */
+  get complete(): boolean {
+    return this.closed;
+  }
+
+  private finishValue(end: number, entries: Array<[string, unknown]>): void {
+    if (this.key !== null && this.valueStart >= 0) {
+      try {
+        entries.push([this.key, JSON.parse(this.text.slice(this.valueStart, end))]);
+      } catch {
+        // Malformed value: the final validation reports it
+      }
+    }
+    this.key = null;
+    this.valueStart = -1;
+  }
+}
+
+// ============================================================================
+// Streaming Screening
+// ============================================================================
+
+type SectionSchemas = Record<string, z.ZodTypeAny>;
+
+/**
+ * Per-section schemas for the job (one step per criterion when it declares screeningCriteria)
+ */
+function sectionSchemasFor(job: JobDescription): SectionSchemas {
+  const schema = buildScreeningSchema(job.screeningCriteria);
+  return schema instanceof z.ZodObject ? schema.shape : ResumeScreeningSchema.shape;
+}
+
+/**
+ * Section event for a parsed entry, or null if it is not a valid screening field
+ */
+function toSectionEvent(
+  sections: SectionSchemas,
+  key: string,
+  value: unknown,
+  attempt: number,
+  partial: Partial<ResumeScreening>
+): SectionEvent | null {
+  const field = sections[key];
+  const parsed = field?.safeParse(value);
+  if (!parsed?.success) return null;
+  const section = key as keyof ResumeScreening;
+  Object.assign(partial, { [section]: parsed.data });
+  return { type: 'section', attempt, section, value: parsed.data, partial: { ...partial } } as SectionEvent;
+}
+
+/**
+ * streamResumeScreening - runResumeScreening with per-section events
+ *
+ * Uses provider.stream() when the provider has one; otherwise every section
+ * is emitted together once the complete response arrives.
+ *
+ * @param resume - Candidate resume to analyze
+ * @param job - Job description to match against
+ * @param options - Same options as runResumeScreening
+ * @returns Attempt and section events, then exactly one result event
+ * @throws Whatever runResumeScreening throws (e.g. PromptNotFoundError)
+ */
+export async function* streamResumeScreening(
+  resume: Resume,
+  job: JobDescription,
+  options: ScreeningOptions = {}
+): AsyncGenerator<ScreeningStreamEvent> {
+  const queue: ScreeningStreamEvent[] = [];
+  let wake: (() => void) | null = null;
+  let failure: { error: unknown } | null = null;
+  const emit = (event: ScreeningStreamEvent) => {
+    queue.push(event);
+    wake?.();
+  };
+
+  const sections = sectionSchemasFor(job);
+  let attempt = 0;
+  let parser = new IncrementalObjectParser();
+  let partial: Partial<ResumeScreening> = {};
+
+  runResumeScreening(resume, job, {
+    ...options,
+    onDelta: (delta, deltaAttempt) => {
+      options.onDelta?.(delta, deltaAttempt);
+      if (deltaAttempt !== attempt) {
+        attempt = deltaAttempt;
+        parser = new IncrementalObjectParser();
+        partial = {};
+        emit({ type: 'attempt', attempt });
+      }
+      for (const [key, value] of parser.push(delta)) {
+        const event = toSectionEvent(sections, key, value, attempt, partial);
+        if (event) emit(event);
+      }
+    }
+  }).then(
+    result => emit({ type: 'result', result }),
+    error => {
+      failure = { error };
+      wake?.();
+    }
+  );
+
+  while (true) {
+    while (queue.length > 0) {
+      const event = queue.shift()!;
+      yield event;
+      if (event.type === 'result') return;
+    }
+    if (failure) throw (failure as { error: unknown }).error;
+    await new Promise<void>(resolve => (wake = resolve));
+    wake = null;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * CLI Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { run, EXIT_OK, EXIT_SCREENING_FAILED, EXIT_USAGE, EXIT_INVALID_INPUT, EXIT_STORE_FAILED } from './cli.js';
+import { MockProvider } from './MockProvider.js';
+
+const RESUME = 'fixtures/resumes/strong-match.json';
+const JOB = 'fixtures/jobs/senior-software-engineer.json';
+
+let stdout = '';
+let stderr = '';
+
+beforeEach(() => {
+  stdout = '';
+  stderr = '';
+  vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+    stdout += String(chunk);
+    return true;
+  });
+  vi.spyOn(process.stderr, 'write').mockImplementation(chunk => {
+    stderr += String(chunk);
+    return true;
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), 'sgr-cli-'));
+}
+
+describe('cli', () => {
+  it('should exit with usage errors for unknown commands and missing options', async () => {
+    expect(await run([])).toBe(EXIT_USAGE);
+    expect(await run(['rank'])).toBe(EXIT_USAGE);
+    expect(await run(['screen', '--job', JOB])).toBe(EXIT_USAGE);
+    expect(stderr).toContain('Missing required option --resume');
+    expect(await run(['screen', '--bogus'])).toBe(EXIT_USAGE);
+  });
+
+  describe('screen', () => {
+    it('should print the screening and exit 0', async () => {
+      const code = await run(['screen', '--provider', 'mock', '--resume', RESUME, '--job', JOB, '--format', 'json']);
+
+      expect(code).toBe(EXIT_OK);
+      expect(JSON.parse(stdout)).toMatchObject({ candidateId: 'CAND-001', success: true });
+    });
+
+    it('should exit 3 for unreadable input and 1 for a failed screening', async () => {
+      expect(await run(['screen', '--provider', 'mock', '--resume', 'missing.json', '--job', JOB])).toBe(EXIT_INVALID_INPUT);
+
+      vi.spyOn(MockProvider.prototype, 'complete').mockRejectedValue(new Error('model unavailable'));
+      expect(await run(['screen', '--provider', 'mock', '--resume', RESUME, '--job', JOB])).toBe(EXIT_SCREENING_FAILED);
+      expect(stdout).toContain('api_error: model unavailable');
+    });
+
+    it('should print results before storing them and exit 4 when the store fails', async () => {
+      const store = tempDir();
+      const code = await run(['screen', '--provider', 'mock', '--resume', RESUME, '--job', JOB, '--format', 'json', '--store', store]);
+
+      expect(code).toBe(EXIT_STORE_FAILED);
+      expect(JSON.parse(stdout)).toMatchObject({ candidateId: 'CAND-001', success: true });
+      expect(stderr).toContain('Warning: results were not stored');
+
+      const file = join(tempDir(), 'screenings.jsonl');
+      expect(await run(['screen', '--provider', 'mock', '--resume', RESUME, '--job', JOB, '--store', file])).toBe(EXIT_OK);
+      expect(readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(1);
+    });
+  });
+
+  describe('batch', () => {
+    it('should screen every resume in a directory', async () => {
+      const code = await run(['batch', '--provider', 'mock', '--resumes', 'fixtures/resumes', '--job', JOB, '--format', 'jsonl']);
+
+      expect(code).toBe(EXIT_OK);
+      const records = stdout.trim().split('\n').map(line => JSON.parse(line));
+      expect(records.map(r => r.candidateId).sort()).toEqual(['CAND-001', 'CAND-002', 'CAND-003']);
+    });
+
+    it('should reject an invalid concurrency', async () => {
+      const code = await run(['batch', '--provider', 'mock', '--resumes', 'fixtures/resumes', '--job', JOB, '--concurrency', '0']);
+      expect(code).toBe(EXIT_USAGE);
+    });
+  });
+
+  describe('label', () => {
+    it('should approve a stored screening so --few-shot uses it instead of the seed', async () => {
+      const store = join(tempDir(), 'screenings.jsonl');
+      const screen = (resume: string) => ['screen', '--provider', 'mock', '--resume', resume, '--job', JOB, '--store', store, '--few-shot'];
+
+      expect(await run(screen(RESUME))).toBe(EXIT_OK);
+      // The seed example is this candidate's own resume, so it is skipped
+      expect(stderr).toContain('No approved screenings in the store yet; no examples were used');
+      const id = stderr.match(/\[Store\] CAND-001: saved as (\S+)/)?.[1];
+      expect(id).toBeDefined();
+
+      expect(await run(['label', id!, '--store', store, '--reviewer', 'sam', '--note', 'Accurate'])).toBe(EXIT_OK);
+      expect(stdout).toContain(`approved ${id} (CAND-001, `);
+
+      stdout = '';
+      expect(await run([...screen('fixtures/resumes/potential-fit.json'), '--format', 'json'])).toBe(EXIT_OK);
+      expect(JSON.parse(stdout).fewShot).toMatchObject({ source: 'store', selected: [{ candidateId: 'CAND-001' }] });
+    });
+
+    it('should only claim the seed example was used when it was selected', async () => {
+      const store = join(tempDir(), 'screenings.jsonl');
+      const code = await run([
+        'screen', '--provider', 'mock', '--resume', RESUME, '--job', 'fixtures/jobs/junior-frontend-developer.yaml',
+        '--store', store, '--few-shot', '--format', 'json'
+      ]);
+
+      expect(code).toBe(EXIT_OK);
+      expect(JSON.parse(stdout).fewShot).toMatchObject({ source: 'seed', selected: [] });
+      expect(stderr).toContain('no examples were used');
+      expect(stderr).not.toContain('used the built-in example');
+
+      stderr = '';
+      expect(await run(['screen', '--provider', 'mock', '--resume', 'fixtures/resumes/potential-fit.json', '--job', JOB, '--store', store, '--few-shot'])).toBe(EXIT_OK);
+      expect(stderr).toContain('No approved screenings in the store yet; used the built-in example');
+    });
+
+    it('should exit 2 without a reviewer and 3 for an unknown record', async () => {
+      const store = join(tempDir(), 'screenings.jsonl');
+      expect(await run(['label', 'rec-1', '--store', store])).toBe(EXIT_USAGE);
+      expect(await run(['label', 'rec-1', '--store', store, '--reviewer', 'sam'])).toBe(EXIT_INVALID_INPUT);
+    });
+  });
+
+  describe('validate', () => {
+    it('should exit 0 when every file is valid', async () => {
+      expect(await run(['validate', 'fixtures/jobs', RESUME])).toBe(EXIT_OK);
+      expect(stdout).toContain(`ok       ${RESUME} (resume)`);
+    });
+
+    it('should check files in subdirectories and reject empty directories', async () => {
+      expect(await run(['validate', 'fixtures'])).toBe(EXIT_OK);
+      expect(stdout.trim().split('\n')).toHaveLength(5);
+
+      const empty = tempDir();
+      expect(await run(['validate', empty])).toBe(EXIT_INVALID_INPUT);
+      expect(await run(['batch', '--provider', 'mock', '--resumes', empty, '--job', JOB])).toBe(EXIT_INVALID_INPUT);
+      expect(stderr).toContain('No .json, .yaml, .yml files found');
+    });
+
+    it('should exit 3 when a file is invalid', async () => {
+      const file = join(tempDir(), 'resume.json');
+      writeFileSync(file, JSON.stringify({ candidateId: 'CAND-X', name: 'No Skills' }));
+
+      expect(await run(['validate', file, '--type', 'resume'])).toBe(EXIT_INVALID_INPUT);
+      expect(stdout).toContain(`invalid  ${file} (resume)`);
+    });
+  });
+});
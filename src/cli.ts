@@ -0,0 +1,446 @@
+#!/usr/bin/env node
+/**
+ * Resume Screening CLI
+ *
+ * Usage:
+ *   npm run cli -- screen   --resume <file> --job <file> [options]
+ *   npm run cli -- batch    --resumes <file|dir> --job <file> [options]
+ *   npm run cli -- validate <file|dir>... [--type resume|job]
+ *   npm run cli -- parse    <resume.md|resume.txt> [--candidate-id <id>]
+ *   npm run cli -- label    <record-id> --store <file> --reviewer <name> [--reject] [--note <text>]
+ *
+ * Input files may be JSON or YAML; directories are expanded to every
+ * .json/.yaml/.yml file they contain, including subdirectories.
+ * screen and batch analyze the job first (cached per jobId) and check each
+ * screening against its typed requirements.
+ *
+ * label records a reviewer verdict on a stored screening (record IDs are
+ * printed when --store saves a result); approved screenings become the
+ * --few-shot examples for later screenings.
+ *
+ * Options:
+ *   --format table|json|jsonl   Output format (default: table)
+ *   --provider openai|mock      LLM backend (default: LLM_PROVIDER or openai)
+ *   --model <name>              Model override
+ *   --concurrency <n>           Batch screenings in flight (batch only)
+ *   --repair                    Enable the self-repair loop
+ *   --redact                    Pseudonymize name, contact details, schools and
+ *                               graduation years before the model sees them
+ *   --store <file>              Append results to a screening store and report
+ *                               changes since each candidate's last screening
+ *   --few-shot                  Show the model similar approved screenings from
+ *                               the store (or a built-in example, until one is
+ *                               approved) first
+ *   --verbose                   Show agent logs on stderr
+ *
+ * Exit codes:
+ *   0  All screenings succeeded / all files valid
+ *   1  At least one screening failed
+ *   2  Usage error (unknown command, missing option)
+ *   3  Invalid or unreadable input file
+ *   4  Screenings succeeded and were printed, but --store could not save them
+ */
+
+import 'dotenv/config';
+
+import { readFileSync, realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { runResumeScreening, LLMAgentResult, ScreeningOptions } from './LLMAgent.js';
+import { screenBatch } from './BatchScreening.js';
+import { jobAnalysisFor } from './JobAnalysis.js';
+import { createProvider } from './LLMProvider.js';
+import { parseResumeText } from './ResumeParser.js';
+import { ScreeningStore, ScreeningStoreError, formatFieldChange } from './ScreeningStore.js';
+import { Resume } from './examples/resumes.js';
+import { JobDescription } from './examples/jobDescriptions.js';
+import {
+  InputValidationError,
+  loadResumes,
+  loadJob,
+  listInputFiles,
+  validateInputFile,
+  formatInputIssue
+} from './InputLoader.js';
+
+export const EXIT_OK = 0;
+export const EXIT_SCREENING_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_INVALID_INPUT = 3;
+export const EXIT_STORE_FAILED = 4;
+
+type OutputFormat = 'table' | 'json' | 'jsonl';
+
+/**
+ * CliError - Error carrying the exit code the process should end with
+ */
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+// ============================================================================
+// Input Loading
+// ============================================================================
+
+/**
+ * Run a loader, converting input problems into an EXIT_INVALID_INPUT error
+ */
+function load<T>(loader: () => T): T {
+  try {
+    return loader();
+  } catch (e) {
+    if (e instanceof InputValidationError) throw new CliError(e.message, EXIT_INVALID_INPUT);
+    throw e;
+  }
+}
+
+// ============================================================================
+// Output Formatting
+// ============================================================================
+
+interface ResultRow {
+  candidateId: string;
+  jobId: string;
+  result: LLMAgentResult;
+}
+
+function toRecord({ candidateId, jobId, result }: ResultRow): Record<string, unknown> {
+  return {
+    candidateId,
+    jobId,
+    success: result.success,
+    screening: result.data,
+    error: result.error,
+    grounding: result.grounding,
+    scoring: result.scoring,
+    experience: result.experience,
+    redaction: result.redaction,
+    fewShot: result.fewShot,
+    metadata: result.metadata
+  };
+}
+
+function formatTable(rows: ResultRow[]): string {
+  const header = ['CANDIDATE', 'FIT', 'SCORE', 'COMPUTED', 'ACTION', 'GROUNDING', 'TOKENS', 'STATUS'];
+  const body = rows.map(({ candidateId, result }) => [
+    candidateId,
+    result.data?.overall_fit ?? '-',
+    result.data ? String(result.data.fit_score) : '-',
+    result.scoring ? `${result.scoring.computedScore}${result.scoring.diverged ? '!' : ''}` : '-',
+    result.data?.recommended_action ?? '-',
+    result.grounding ? result.grounding.score.toFixed(2) : '-',
+    String(result.metadata?.tokensUsed ?? 0),
+    result.success ? 'ok' : `${result.error?.type}: ${result.error?.message}`
+  ]);
+
+  const widths = header.map((h, i) => Math.max(h.length, ...body.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(header), line(widths.map(w => '-'.repeat(w))), ...body.map(line)].join('\n');
+}
+
+function writeResults(rows: ResultRow[], format: OutputFormat): void {
+  let output: string;
+  if (format === 'json') {
+    output = JSON.stringify(rows.length === 1 ? toRecord(rows[0]) : rows.map(toRecord), null, 2);
+  } else if (format === 'jsonl') {
+    output = rows.map(row => JSON.stringify(toRecord(row))).join('\n');
+  } else {
+    output = formatTable(rows);
+  }
+  process.stdout.write(`${output}\n`);
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+const OPTIONS = {
+  resume: { type: 'string' },
+  resumes: { type: 'string' },
+  job: { type: 'string' },
+  format: { type: 'string', default: 'table' },
+  provider: { type: 'string' },
+  model: { type: 'string' },
+  concurrency: { type: 'string' },
+  type: { type: 'string' },
+  'candidate-id': { type: 'string' },
+  store: { type: 'string' },
+  reviewer: { type: 'string' },
+  note: { type: 'string' },
+  reject: { type: 'boolean', default: false },
+  repair: { type: 'boolean', default: false },
+  redact: { type: 'boolean', default: false },
+  'few-shot': { type: 'boolean', default: false },
+  verbose: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+type ParsedValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+function requireOption(values: ParsedValues, name: 'resume' | 'resumes' | 'job' | 'store' | 'reviewer'): string {
+  const value = values[name];
+  if (!value) throw new CliError(`Missing required option --${name}`, EXIT_USAGE);
+  return value;
+}
+
+function parseFormat(value: string | undefined): OutputFormat {
+  if (value === 'table' || value === 'json' || value === 'jsonl') return value;
+  throw new CliError(`Unknown format: ${value}. Expected table, json or jsonl`, EXIT_USAGE);
+}
+
+function screeningOptions(values: ParsedValues): ScreeningOptions {
+  let provider;
+  try {
+    provider = values.provider ? createProvider(values.provider) : undefined;
+  } catch (e) {
+    throw new CliError(e instanceof Error ? e.message : String(e), EXIT_USAGE);
+  }
+
+  return {
+    provider,
+    model: values.model,
+    repair: values.repair ? { enabled: true } : undefined,
+    redaction: values.redact ? { enabled: true } : undefined,
+    fewShot: values['few-shot'] ? { store: values.store ? new ScreeningStore(values.store) : undefined } : undefined
+  };
+}
+
+/**
+ * Append results to the store and report re-screen changes on stderr
+ *
+ * Runs after the results were written, so a store problem never loses a
+ * finished screening.
+ *
+ * @returns Whether every result was saved (failures are reported on stderr)
+ */
+function storeResults(path: string, results: Array<{ resume: Resume; result: LLMAgentResult }>, job: JobDescription): boolean {
+  const store = new ScreeningStore(path);
+  try {
+    for (const { resume, result } of results) {
+      const { record, previous, changes } = store.save(result, resume, job);
+      process.stderr.write(`[Store] ${resume.candidateId}: saved as ${record.id}\n`);
+      if (!previous || !result.success) continue;
+      process.stderr.write(`[Store] ${resume.candidateId}: ${changes.length} field(s) changed since ${previous.screenedAt}\n`);
+      for (const change of changes) process.stderr.write(`  ${formatFieldChange(change)}\n`);
+    }
+    return true;
+  } catch (e) {
+    if (!(e instanceof ScreeningStoreError)) throw e;
+    process.stderr.write(`Warning: results were not stored: ${e.message}\n`);
+    return false;
+  }
+}
+
+/**
+ * Point out when --few-shot had no approved screenings to draw on
+ */
+function reportSeedExamples(results: LLMAgentResult[]): void {
+  const seeded = results.filter(result => result.fewShot?.source === 'seed');
+  if (seeded.length === 0) return;
+  const used = seeded.some(result => (result.fewShot?.selected.length ?? 0) > 0);
+  process.stderr.write(`[FewShot] No approved screenings in the store yet; ${used
+    ? 'used the built-in example'
+    : 'no examples were used'} (see cli label)\n`);
+}
+
+/**
+ * Exit code for a finished run: failed screenings outrank a failed store
+ */
+function exitCode(screeningsOk: boolean, stored: boolean): number {
+  if (!screeningsOk) return EXIT_SCREENING_FAILED;
+  return stored ? EXIT_OK : EXIT_STORE_FAILED;
+}
+
+async function screenCommand(values: ParsedValues): Promise<number> {
+  const format = parseFormat(values.format);
+  const [resume, ...extra] = load(() => loadResumes(requireOption(values, 'resume')));
+  if (!resume || extra.length > 0) {
+    throw new CliError('--resume must point to a single resume (use batch for directories)', EXIT_USAGE);
+  }
+  const job = load(() => loadJob(requireOption(values, 'job')));
+
+  const options = screeningOptions(values);
+  const result = await runResumeScreening(resume, job, { ...options, jobAnalysis: await jobAnalysisFor(job, options) });
+  writeResults([{ candidateId: resume.candidateId, jobId: job.jobId, result }], format);
+  reportSeedExamples([result]);
+  const stored = values.store ? storeResults(values.store, [{ resume, result }], job) : true;
+  return exitCode(result.success, stored);
+}
+
+async function batchCommand(values: ParsedValues): Promise<number> {
+  const format = parseFormat(values.format);
+  const resumes = load(() => loadResumes(requireOption(values, 'resumes')));
+  const job = load(() => loadJob(requireOption(values, 'job')));
+  const concurrency = values.concurrency ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new CliError(`--concurrency must be a positive integer, got ${values.concurrency}`, EXIT_USAGE);
+  }
+
+  const batch = await screenBatch(resumes, job, {
+    ...screeningOptions(values),
+    concurrency,
+    onProgress: ({ completed, total }) => process.stderr.write(`\r[Batch] ${completed}/${total}`)
+  });
+  process.stderr.write('\n');
+
+  writeResults(batch.items.map(item => ({ candidateId: item.candidateId, jobId: job.jobId, result: item })), format);
+  reportSeedExamples(batch.items);
+  const stored = values.store
+    ? storeResults(values.store, batch.items.map(item => ({ resume: resumes[item.index], result: item })), job)
+    : true;
+  return exitCode(batch.failed === 0, stored);
+}
+
+function validateCommand(values: ParsedValues, paths: string[]): number {
+  if (paths.length === 0) throw new CliError('validate needs at least one file or directory', EXIT_USAGE);
+  if (values.type && values.type !== 'resume' && values.type !== 'job') {
+    throw new CliError(`Unknown type: ${values.type}. Expected resume or job`, EXIT_USAGE);
+  }
+
+  let invalid = 0;
+  for (const file of load(() => paths.flatMap(listInputFiles))) {
+    const { kind, issues } = validateInputFile(file, values.type as 'resume' | 'job' | undefined);
+
+    if (issues.length === 0) {
+      process.stdout.write(`ok       ${file} (${kind})\n`);
+    } else {
+      invalid++;
+      process.stdout.write(`invalid  ${file} (${kind})\n${issues.map(i => `  - ${formatInputIssue(i)}`).join('\n')}\n`);
+    }
+  }
+  return invalid === 0 ? EXIT_OK : EXIT_INVALID_INPUT;
+}
+
+async function parseCommand(values: ParsedValues, paths: string[]): Promise<number> {
+  if (paths.length !== 1) throw new CliError('parse needs exactly one resume text file', EXIT_USAGE);
+
+  let text: string;
+  try {
+    text = readFileSync(paths[0], 'utf8');
+  } catch (e) {
+    throw new CliError(`${paths[0]}: ${e instanceof Error ? e.message : 'unreadable'}`, EXIT_INVALID_INPUT);
+  }
+
+  const result = await parseResumeText(text, {
+    ...screeningOptions(values),
+    candidateId: values['candidate-id']
+  });
+
+  if (!result.success || !result.data) {
+    process.stderr.write(`Error: ${result.error?.type}: ${result.error?.message}\n`);
+    return EXIT_SCREENING_FAILED;
+  }
+
+  // The resume goes to stdout (ready for screen/batch); the report to stderr
+  process.stdout.write(`${JSON.stringify(result.data, null, 2)}\n`);
+  process.stderr.write(`Extraction confidence: ${result.confidence?.overall} ` +
+    `(round-trip similarity ${result.confidence?.roundTripSimilarity}, ` +
+    `${result.confidence?.unverifiedValues.length} unverified values)\n`);
+  return EXIT_OK;
+}
+
+function labelCommand(values: ParsedValues, ids: string[]): number {
+  if (ids.length !== 1) throw new CliError('label needs exactly one record ID', EXIT_USAGE);
+  const store = new ScreeningStore(requireOption(values, 'store'));
+  const reviewer = requireOption(values, 'reviewer');
+
+  // RecordNotFoundError and unreadable stores exit with EXIT_INVALID_INPUT (see run)
+  const record = store.label(ids[0], { approved: !values.reject, reviewer, ...(values.note ? { note: values.note } : {}) });
+  process.stdout.write(`${values.reject ? 'rejected' : 'approved'} ${record.id} (${record.candidateId}, ${record.jobId}) by ${reviewer}\n`);
+  if (!values.reject && !record.success) {
+    process.stderr.write(`[Store] ${record.id} is a failed screening and will not be used as an example\n`);
+  }
+  return EXIT_OK;
+}
+
+function usage(): string {
+  return [
+    'Usage:',
+    '  cli screen   --resume <file> --job <file> [--format table|json|jsonl]',
+    '  cli batch    --resumes <file|dir> --job <file> [--concurrency n] [--format table|json|jsonl]',
+    '  cli validate <file|dir>... [--type resume|job]',
+    '  cli parse    <resume.md|resume.txt> [--candidate-id <id>]',
+    '  cli label    <record-id> --store <file> --reviewer <name> [--reject] [--note <text>]',
+    '',
+    'Common options: --provider openai|mock, --model <name>, --repair, --verbose'
+  ].join('\n');
+}
+
+/**
+ * run - CLI entry point, returns the process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (e) {
+    process.stderr.write(`${e instanceof Error ? e.message : e}\n\n${usage()}\n`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+
+  if (values.help || !command) {
+    process.stderr.write(`${usage()}\n`);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  // Keep stdout clean for results: agent logs go to stderr or nowhere
+  const originalLog = console.log;
+  console.log = values.verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+
+  try {
+    switch (command) {
+      case 'screen':
+        return await screenCommand(values);
+      case 'batch':
+        return await batchCommand(values);
+      case 'validate':
+        return validateCommand(values, rest);
+      case 'parse':
+        return await parseCommand(values, rest);
+      case 'label':
+        return labelCommand(values, rest);
+      default:
+        throw new CliError(`Unknown command: ${command}\n\n${usage()}`, EXIT_USAGE);
+    }
+  } catch (e) {
+    if (e instanceof CliError) {
+      process.stderr.write(`Error: ${e.message}\n`);
+      return e.exitCode;
+    }
+    // e.g. a corrupt store read while picking few-shot examples
+    if (e instanceof ScreeningStoreError) {
+      process.stderr.write(`Error: ${e.message}\n`);
+      return EXIT_INVALID_INPUT;
+    }
+    process.stderr.write(`Error: ${e instanceof Error ? e.message : e}\n`);
+    return EXIT_SCREENING_FAILED;
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+/**
+ * Whether this module is the program being run (not imported, e.g. by tests)
+ */
+function isEntryPoint(): boolean {
+  const script = process.argv[1];
+  if (!script) return false;
+  try {
+    // The installed bin is a symlink to dist/cli.js
+    return import.meta.url === pathToFileURL(realpathSync(script)).href;
+  } catch {
+    return false;
+  }
+}
+
+if (isEntryPoint()) {
+  run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
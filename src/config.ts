@@ -20,6 +20,22 @@ export const openaiConfig = {
   baseURL: process.env.OPENAI_BASE_URL || undefined
 } as const;
 
+// ============================================================================
+// Provider Configuration
+// ============================================================================
+
+export const providerConfig = {
+  // Which LLM backend to use: 'openai' (default) or 'mock' (offline, deterministic)
+  // Set via: LLM_PROVIDER=mock
+  provider: process.env.LLM_PROVIDER || 'openai',
+
+  // Model name reported by the mock provider
+  mockModel: 'mock-screener-1',
+
+  // Characters per chunk when the mock provider streams a response
+  mockStreamChunkSize: 64
+} as const;
+
 // ============================================================================
 // Model Configuration
 // ============================================================================
@@ -32,6 +48,33 @@ export const modelConfig = {
   maxRetries: 3
 } as const;
 
+// ============================================================================
+// Retry Configuration
+// ============================================================================
+
+export const retryConfig = {
+  baseDelayMs: 1000,       // First transient retry waits 1s
+  maxDelayMs: 16000,       // Never wait longer than 16s between attempts
+  backoffMultiplier: 2     // 1s, 2s, 4s, ...
+} as const;
+
+// ============================================================================
+// Repair Configuration
+// ============================================================================
+
+export const repairConfig = {
+  enabled: false,  // Opt-in: send Zod issues back to the model on validation failure
+  maxRounds: 2     // Follow-up repair turns per attempt
+} as const;
+
+// ============================================================================
+// Batch Configuration
+// ============================================================================
+
+export const batchConfig = {
+  concurrency: 4  // Screenings in flight at once (keep under your API rate limit)
+} as const;
+
 // ============================================================================
 // Scoring Configuration
 // ============================================================================
@@ -49,6 +92,125 @@ export const scoringConfig = {
   }
 } as const;
 
+// ============================================================================
+// Weighted Scoring Configuration
+// ============================================================================
+
+export const weightedScoringConfig = {
+  // Relative weight of each component of the computed fit_score
+  weights: {
+    screeningSteps: 0.4,   // Share of screening steps (or criterion weight) met
+    requiredSkills: 0.3,   // Required skills matched vs. missing
+    preferredSkills: 0.1,  // Preferred requirements covered by extracted skills
+    experience: 0.15,      // relevant_years against the job's years requirement
+    education: 0.05        // meets_education_requirement
+  },
+  divergenceThreshold: 15  // Points between model and computed score worth flagging
+} as const;
+
+// ============================================================================
+// Grounding Configuration
+// ============================================================================
+
+export const groundingConfig = {
+  minClaimCoverage: 0.6  // Share of a claim's informative words that must appear in the resume
+} as const;
+
+// ============================================================================
+// Experience Duration Configuration
+// ============================================================================
+
+export const experienceConfig = {
+  monthTolerance: 1,        // Months of drift allowed outside the dates (inclusive vs. exclusive counting)
+  totalYearsTolerance: 0.5  // Years of drift allowed in total_years
+} as const;
+
+// ============================================================================
+// Redaction Configuration
+// ============================================================================
+
+export const redactionConfig = {
+  enabled: false,        // Opt-in: pseudonymize the resume before it reaches the model
+  name: true,            // Candidate name, wherever it appears
+  email: true,
+  phone: true,
+  institutions: true,    // School names (pseudonyms keep the kind, e.g. "University A")
+  graduationYears: true  // Left out of the prompt, restored in the screening
+} as const;
+
+// ============================================================================
+// Fairness Audit Configuration
+// ============================================================================
+
+export const fairnessConfig = {
+  // Replacement names, chosen to signal different genders and ethnicities
+  names: [
+    'Emily Walsh', 'Greg Baker', 'Lakisha Washington', 'Jamal Jones',
+    'Maria Garcia', 'Wei Zhang', 'Priya Patel', 'Mohammed Khan'
+  ],
+  pronouns: ['she/her', 'he/him', 'they/them'],
+  graduationYearShifts: [-20, -10],  // Older-looking candidates
+  schools: ['Harvard University', 'Lakeside Community College'],
+  scoreTolerance: 0  // fit_score differences up to this are not reported as changes
+} as const;
+
+// ============================================================================
+// Screening Store Configuration
+// ============================================================================
+
+export const storeConfig = {
+  path: process.env.SCREENING_STORE_PATH || 'data/screenings.jsonl'  // JSON Lines file, one screening per line
+} as const;
+
+// ============================================================================
+// Few-Shot Example Configuration
+// ============================================================================
+
+export const fewShotConfig = {
+  tokenBudget: 6000,   // Estimated prompt tokens all examples together may use
+  maxExamples: 3,      // Examples per screening, at most
+  minSimilarity: 0.2,  // Jobs less similar than this are never used
+  titleWeight: 0.4,    // Share of similarity from job title word overlap
+  skillWeight: 0.6,    // Share of similarity from required/preferred skill overlap
+  charsPerToken: 4     // Rough token estimate for budget checks
+} as const;
+
+// ============================================================================
+// Ranking Configuration
+// ============================================================================
+
+export const rankingConfig = {
+  shortlistSize: 5  // Default number of candidates in a shortlist
+} as const;
+
+// ============================================================================
+// Email Configuration
+// ============================================================================
+
+export const emailConfig = {
+  senderName: 'Talent Acquisition Team',
+  companyName: 'Acme Corp',
+  // All-caps words that are acronyms, not shouting
+  acronyms: ['AGILE', 'CCPA', 'GDPR', 'GRAPHQL', 'HIPAA', 'HTTPS', 'JSON', 'NOSQL', 'OAUTH', 'REST', 'SCRUM', 'SOLID', 'TOGAF']
+} as const;
+
+// ============================================================================
+// Interview Configuration
+// ============================================================================
+
+export const interviewConfig = {
+  maxQuestionsPerStage: 6,
+  // Suggested length of each interview type, in minutes
+  stageMinutes: {
+    phone_screen: 30,
+    technical: 60,
+    behavioral: 45,
+    panel: 60,
+    final_round: 60,
+    hiring_manager: 45
+  }
+} as const;
+
 // ============================================================================
 // Schema Constraints
 // ============================================================================
@@ -5,25 +5,11 @@
  * that the SGR system can evaluate candidates against.
  */
 
-export interface JobRequirements {
-  required: string[];
-  preferred: string[];
-}
+import { z } from 'zod';
+import { JobRequirementsSchema, JobDescriptionSchema } from '../InputSchemas.js';
 
-export interface JobDescription {
-  jobId: string;
-  title: string;
-  department: string;
-  location: string;
-  employmentType: string;
-  description: string;
-  requirements: JobRequirements;
-  salaryRange: {
-    min: number;
-    max: number;
-    currency: string;
-  };
-}
+export type JobRequirements = z.infer<typeof JobRequirementsSchema>;
+export type JobDescription = z.infer<typeof JobDescriptionSchema>;
 
 /**
  * Senior Software Engineer - Primary demo job posting
@@ -97,7 +83,39 @@ to grow their skills in a supportive environment.`,
     min: 70000,
     max: 90000,
     currency: 'USD'
-  }
+  },
+
+  // Job-specific checks: one screening step per criterion
+  screeningCriteria: [
+    {
+      id: 'frontend_fundamentals',
+      label: 'Frontend fundamentals',
+      description: 'Working knowledge of React, HTML, CSS and JavaScript',
+      category: 'technical_skills',
+      weight: 3
+    },
+    {
+      id: 'portfolio_review',
+      label: 'Portfolio review',
+      description: 'Portfolio of personal or academic projects with shipped frontend work',
+      category: 'technical_skills',
+      weight: 2
+    },
+    {
+      id: 'experience_fit',
+      label: 'Experience fit',
+      description: '0-2 years of frontend development experience',
+      category: 'experience_level',
+      weight: 1
+    },
+    {
+      id: 'growth_mindset',
+      label: 'Growth mindset',
+      description: 'Eagerness to learn, shown through courses, bootcamps or side projects',
+      category: 'soft_skills',
+      weight: 1
+    }
+  ]
 };
 
 /**
@@ -7,38 +7,18 @@
  * - Not Qualified: Does not meet minimum requirements
  */
 
-export interface WorkExperience {
-  company: string;
-  title: string;
-  duration: string;
-  achievements: string[];
-}
-
-export interface Education {
-  institution: string;
-  degree: string;
-  year: number;
-  gpa?: number;
-}
-
-export interface Project {
-  name: string;
-  description: string;
-  url?: string;
-}
-
-export interface Resume {
-  candidateId: string;
-  name: string;
-  email: string;
-  phone?: string;
-  summary: string;
-  experience: WorkExperience[];
-  education: Education[];
-  skills: string[];
-  certifications?: string[];
-  projects?: Project[];
-}
+import { z } from 'zod';
+import {
+  WorkExperienceSchema,
+  EducationSchema,
+  ProjectSchema,
+  ResumeSchema
+} from '../InputSchemas.js';
+
+export type WorkExperience = z.infer<typeof WorkExperienceSchema>;
+export type Education = z.infer<typeof EducationSchema>;
+export type Project = z.infer<typeof ProjectSchema>;
+export type Resume = z.infer<typeof ResumeSchema>;
 
 // ============================================================================
 // Strong Match Candidate - Alex Chen
@@ -259,13 +239,16 @@ export function getCandidateById(candidateId: string): Resume | undefined {
 
 /**
  * Format resume as text for LLM input
+ *
+ * Pass graduationYears: false to leave graduation years out (see Redaction.ts).
  */
-export function formatResumeAsText(resume: Resume): string {
+export function formatResumeAsText(resume: Resume, options: { graduationYears?: boolean } = {}): string {
   const sections: string[] = [];
 
   sections.push(`# ${resume.name}`);
   sections.push(`Email: ${resume.email}`);
   if (resume.phone) sections.push(`Phone: ${resume.phone}`);
+  if (resume.pronouns) sections.push(`Pronouns: ${resume.pronouns}`);
   sections.push('');
   sections.push(`## Summary\n${resume.summary}`);
   sections.push('');
@@ -283,7 +266,8 @@ export function formatResumeAsText(resume: Resume): string {
   sections.push('## Education');
   for (const edu of resume.education) {
     const gpaStr = edu.gpa ? ` (GPA: ${edu.gpa})` : '';
-    sections.push(`- ${edu.degree}, ${edu.institution}, ${edu.year}${gpaStr}`);
+    const yearStr = options.graduationYears === false || edu.year === undefined ? '' : `, ${edu.year}`;
+    sections.push(`- ${edu.degree}, ${edu.institution}${yearStr}${gpaStr}`);
   }
   sections.push('');
 
@@ -4,32 +4,42 @@
  * Usage:
  *   1. Create .env file with OPENAI_API_KEY=your-key
  *   2. Run: npm run dev
+ *
+ * Offline (no network, deterministic mock provider):
+ *   LLM_PROVIDER=mock npm run dev
  */
 
 import 'dotenv/config';
 
-import { runResumeScreening } from './LLMAgent.js';
+import { screenBatch } from './BatchScreening.js';
+import { buildShortlist } from './Ranking.js';
 import { defaultJob } from './examples/jobDescriptions.js';
 import { strongMatchCandidate, potentialFitCandidate } from './examples/resumes.js';
-import { openaiConfig } from './config.js';
+import { openaiConfig, providerConfig } from './config.js';
 
 async function main(): Promise<void> {
-  if (!openaiConfig.apiKey) {
-    console.error('OPENAI_API_KEY is not set. Create a .env file with your key.');
+  if (providerConfig.provider === 'openai' && !openaiConfig.apiKey) {
+    console.error('OPENAI_API_KEY is not set. Create a .env file with your key, or set LLM_PROVIDER=mock.');
     process.exit(1);
   }
 
+  console.log(`Using provider: ${providerConfig.provider}`);
   console.log(`Using model: ${openaiConfig.model || 'gpt-4o'}\n`);
 
   // Screen candidates
   const candidates = [strongMatchCandidate, potentialFitCandidate];
 
-  for (const candidate of candidates) {
+  const batch = await screenBatch(candidates, defaultJob, {
+    onProgress: ({ completed, total, item }) => {
+      console.log(`[Batch] ${completed}/${total} screened (${item.candidateId}: ${item.success ? 'ok' : 'failed'})`);
+    }
+  });
+
+  for (const result of batch.items) {
+    const candidate = candidates[result.index];
     console.log(`\nScreening: ${candidate.name}`);
     console.log('-'.repeat(50));
 
-    const result = await runResumeScreening(candidate, defaultJob);
-
     if (result.success && result.data) {
       console.log(`Fit: ${result.data.overall_fit} (${result.data.fit_score}/100)`);
       console.log(`Action: ${result.data.recommended_action}`);
@@ -38,6 +48,17 @@ async function main(): Promise<void> {
       console.log(`Error: ${result.error?.message}`);
     }
   }
+
+  console.log(`\nScreened ${batch.items.length} candidates: ${batch.succeeded} succeeded, ${batch.failed} failed`);
+
+  const screenings = batch.items.flatMap(item => (item.success && item.data ? [item.data] : []));
+  if (screenings.length > 0) {
+    console.log('\nShortlist');
+    console.log('-'.repeat(50));
+    for (const entry of buildShortlist(screenings).entries) {
+      console.log(`${entry.candidateId} ${entry.justification}`);
+    }
+  }
 }
 
 main().catch(console.error);